@@ -0,0 +1,10 @@
+import { NextResponse, type NextRequest } from 'next/server';
+
+import { handleMockRequest } from '@/lib/mock-czechibank';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const { status, body } = await handleMockRequest('user', request.headers.get('x-api-key'), request.nextUrl.searchParams);
+  return NextResponse.json(body, { status });
+}
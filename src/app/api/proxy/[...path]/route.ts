@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from 'next/server';
+
+import { getActiveProfile, openSession, resolveBaseUrl, SESSION_COOKIE } from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+
+// Forwards GET /api/proxy/<endpoint> to the active profile's base URL with its stored API
+// key, so the browser never sends (or sees) the key itself.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+  const session = openSession(request.cookies.get(SESSION_COOKIE)?.value);
+  const profile = session && getActiveProfile(session);
+  if (!profile) {
+    return NextResponse.json({ success: false, error: 'No active session' }, { status: 401 });
+  }
+
+  const { path } = await params;
+  if (path.some(segment => segment === '.' || segment === '..')) {
+    return NextResponse.json({ success: false, error: 'Invalid path' }, { status: 400 });
+  }
+
+  const target = new URL(`${resolveBaseUrl(profile.baseUrl, request.nextUrl.origin)}/${path.map(encodeURIComponent).join('/')}`);
+  target.search = request.nextUrl.search;
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(target, { headers: { 'x-api-key': profile.apiKey }, cache: 'no-store' });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: `Could not reach ${target.origin}: ${error instanceof Error ? error.message : 'unknown error'}` },
+      { status: 502 },
+    );
+  }
+
+  return new NextResponse(await upstream.text(), {
+    status: upstream.status,
+    headers: { 'content-type': upstream.headers.get('content-type') ?? 'application/json' },
+  });
+}
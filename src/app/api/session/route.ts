@@ -0,0 +1,72 @@
+import { NextResponse, type NextRequest } from 'next/server';
+
+import { object, parse, SchemaError, string } from '@/lib/schema';
+import {
+  activateProfile,
+  addProfile,
+  openSession,
+  removeProfile,
+  sealSession,
+  SESSION_COOKIE,
+  sessionCookieOptions,
+  SessionRequestError,
+  toSessionStatus,
+  type Session,
+} from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+
+const switchSchema = object<{ activeProfileId: string }>({ activeProfileId: string() });
+
+const readSession = (request: NextRequest) => openSession(request.cookies.get(SESSION_COOKIE)?.value);
+
+function respond(session: Session | null) {
+  const response = NextResponse.json(toSessionStatus(session));
+  if (session) {
+    response.cookies.set(SESSION_COOKIE, sealSession(session), sessionCookieOptions(session.expiresAt));
+  } else {
+    response.cookies.set(SESSION_COOKIE, '', { ...sessionCookieOptions(0), maxAge: 0 });
+  }
+  return response;
+}
+
+function respondWithError(error: unknown) {
+  if (error instanceof SessionRequestError || error instanceof SchemaError) {
+    return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+  }
+  console.error('Session error:', error);
+  return NextResponse.json({ success: false, error: error instanceof Error ? error.message : 'Session error' }, { status: 500 });
+}
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(toSessionStatus(readSession(request)));
+}
+
+// Log in, or save another profile: the key is sent once and from then on only travels
+// inside the encrypted cookie.
+export async function POST(request: NextRequest) {
+  try {
+    return respond(addProfile(readSession(request), await request.json().catch(() => null)));
+  } catch (error) {
+    return respondWithError(error);
+  }
+}
+
+// Switch the active profile: { activeProfileId }.
+export async function PATCH(request: NextRequest) {
+  const session = readSession(request);
+  if (!session) return NextResponse.json({ success: false, error: 'No active session' }, { status: 401 });
+  try {
+    const { activeProfileId } = parse(switchSchema, await request.json().catch(() => null));
+    return respond(activateProfile(session, activeProfileId));
+  } catch (error) {
+    return respondWithError(error);
+  }
+}
+
+// ?profile=<id> forgets one profile; without it the whole session ends (logout).
+export async function DELETE(request: NextRequest) {
+  const session = readSession(request);
+  const profileId = request.nextUrl.searchParams.get('profile');
+  return respond(session && profileId ? removeProfile(session, profileId) : null);
+}
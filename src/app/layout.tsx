@@ -1,25 +1,54 @@
 import type { Metadata } from "next";
 import { Inter } from "next/font/google";
+import { cookies, headers } from "next/headers";
 import "./globals.css";
 
+import { DashboardDataProvider } from "@/components/dashboard-data-provider";
+import { I18nProvider } from "@/components/i18n-provider";
+import { ThemeProvider } from "@/components/theme-provider";
+import { LOCALE_COOKIE, resolveLocale, translate } from "@/lib/i18n";
+import { PALETTE_COOKIE, resolveColorPalette, resolveThemeMode, SYSTEM_THEME_SCRIPT, THEME_COOKIE } from "@/lib/theme";
+
 const inter = Inter({ subsets: ["latin"] });
 
-export const metadata: Metadata = {
-  title: "CzechiBank Analytics Dashboard",
-  description: "View and analyze your CzechiBank transactions with interactive charts and statistics",
-  keywords: ["banking", "analytics", "transactions", "charts", "finance"],
-  authors: [{ name: "Czechitas" }],
-  viewport: "width=device-width, initial-scale=1",
-};
+async function getRequestLocale() {
+  const [cookieStore, headerList] = await Promise.all([cookies(), headers()]);
+  return resolveLocale(cookieStore.get(LOCALE_COOKIE)?.value, headerList.get("accept-language"));
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  const locale = await getRequestLocale();
+  return {
+    title: translate(locale, "app.title"),
+    description: translate(locale, "app.description"),
+    keywords: ["banking", "analytics", "transactions", "charts", "finance"],
+    authors: [{ name: "Czechitas" }],
+    viewport: "width=device-width, initial-scale=1",
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getRequestLocale();
+  const cookieStore = await cookies();
+  const themeMode = resolveThemeMode(cookieStore.get(THEME_COOKIE)?.value);
+  const palette = resolveColorPalette(cookieStore.get(PALETTE_COOKIE)?.value);
+  // In system mode the script may add the `dark` class before hydration
   return (
-    <html lang="en">
-      <body className={inter.className}>{children}</body>
+    <html lang={locale} className={themeMode === "dark" ? "dark" : undefined} data-palette={palette} suppressHydrationWarning>
+      <head>
+        {themeMode === "system" && <script dangerouslySetInnerHTML={{ __html: SYSTEM_THEME_SCRIPT }} />}
+      </head>
+      <body className={inter.className}>
+        <I18nProvider initialLocale={locale}>
+          <ThemeProvider initialMode={themeMode} initialPalette={palette}>
+            <DashboardDataProvider>{children}</DashboardDataProvider>
+          </ThemeProvider>
+        </I18nProvider>
+      </body>
     </html>
   );
 }
@@ -1,221 +1,455 @@
 'use client';
 
-import axios from 'axios';
-import { ChevronDown, ChevronsUpDown, ChevronUp } from 'lucide-react';
-import { useEffect, useState } from 'react';
-import { Bar, BarChart, Brush, CartesianGrid, Cell, ComposedChart, Legend, Line, LineChart, Pie, PieChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
-
-interface User {
-  id: string;
-  name: string;
-  email: string;
-}
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { Area, Bar, BarChart, Brush, CartesianGrid, Cell, ComposedChart, Legend, Line, LineChart, Pie, PieChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
 
-interface Transaction {
-  id: string;
-  amount: number;
-  createdAt: string;
-  currency: string;
-  from: {
-    number: string;
-    user: {
-      name: string;
-      id: string;
-    };
-  };
-  to: {
-    number: string;
-    user: {
-      name: string;
-      id: string;
-    };
-  };
-}
+import { AccountBalances } from '@/components/account-balances';
+import { renderAnomalyDot } from '@/components/anomaly-dot';
+import { BudgetsWidget } from '@/components/budgets-widget';
+import { CategoryRulesEditor } from '@/components/category-rules-editor';
+import { ConnectionForm, type Connection } from '@/components/connection-form';
+import { CurrencyBreakdown } from '@/components/currency-breakdown';
+import { CurrencySettings } from '@/components/currency-settings';
+import { EMPTY_DASHBOARD_DATA, fetchDashboardData, useDashboardData } from '@/components/dashboard-data-provider';
+import { DateRangePicker } from '@/components/date-range-picker';
+import { ExportMenu } from '@/components/export-menu';
+import { ForecastSummary } from '@/components/forecast-summary';
+import { GranularitySelect } from '@/components/granularity-select';
+import { useI18n } from '@/components/i18n-provider';
+import { LanguageSwitcher } from '@/components/language-switcher';
+import { LayoutEditor } from '@/components/layout-editor';
+import { OfflineImport } from '@/components/offline-import';
+import { PeriodComparison } from '@/components/period-comparison';
+import { ProfileSwitcher } from '@/components/profile-switcher';
+import { RecurringPayments } from '@/components/recurring-payments';
+import { ThemeSwitcher } from '@/components/theme-switcher';
+import { TransactionPanel } from '@/components/transaction-panel';
+import { TransactionsTable } from '@/components/transactions-table';
+import { ALL_ACCOUNTS, getAccountScope, involvesScope, type TransactionDirection } from '@/lib/accounts';
+import { countAnomaliesByPeriod, detectAnomalies } from '@/lib/anomalies';
+import { computeBalanceData, computeClosingBalance, computeRunningBalance, computeTopPartners, computeTransactionCounts, computeTransactionStats, computeTransactionTypes, computeVolume, type PartnerVolume } from '@/lib/analytics';
+import { applyCurrencyView, computeCurrencyTotals, getViewBalance, loadExchangeRates, PIVOT_CURRENCY, saveExchangeRates, type CurrencyView, type ExchangeRate } from '@/lib/currency';
+import { evaluateBudgets, getBudgetFlags, loadBudgets, saveBudgets, type Budget } from '@/lib/budgets';
+import { categorizeTransactions, computeCategoryTotals, DEFAULT_CATEGORY_SETTINGS, listCategories, loadCategorySettings, saveCategorySettings, type CategorySettings } from '@/lib/categories';
+import { compareSummaries, comparePartners, computePeriodSummary, DEFAULT_COMPARISON, getComparisonRange, overlayBalance, type ComparisonSettings } from '@/lib/comparison';
+import { CzechiBankApiError, CzechiBankResponseError, type TransactionHistoryProgress } from '@/lib/czechibank';
+import { BUILT_IN_ENVIRONMENTS, loadCustomEnvironments, saveCustomEnvironments, type ApiEnvironment } from '@/lib/environments';
+import { DEFAULT_DATE_RANGE, isAfterRange, isWithinRange, resolveDateRange, type DateRange } from '@/lib/date-range';
+import { transactionsToRows } from '@/lib/export';
+import { appendForecast, DEFAULT_FORECAST_DAYS, forecastBalance } from '@/lib/forecast';
+import type { OfflineDataset } from '@/lib/import';
+import { DEFAULT_LAYOUT, loadLayout, saveLayout, type DashboardLayout, type WidgetId } from '@/lib/layout';
+import { detectRecurring } from '@/lib/recurring';
+import { partnerHref, PARTNERS_HREF } from '@/lib/routes';
+import type { ProfileSummary, SessionStatus } from '@/lib/session';
+import { endSession, getSessionStatus, removeProfile, saveProfile, switchProfile } from '@/lib/session-client';
+import { CHART_COLORS, CHART_TICK, CHART_TOOLTIP_STYLE } from '@/lib/theme';
+import { toBucketKey, type Granularity } from '@/lib/time-buckets';
+import { DEFAULT_TRANSACTION_FILTERS, filterTransactions, sortTransactions, type SortField, type SortOrder, type TransactionFilters } from '@/lib/transaction-filters';
+import { decodeViewState, encodeViewState, type DashboardViewState } from '@/lib/url-state';
 
-interface BankAccount {
-  id: string;
-  number: string;
-  balance: number;
-  currency: string;
-  user: {
-    name: string;
-    id: string;
-  };
-}
+const TYPE_COLORS: Record<TransactionDirection, string> = {
+  incoming: CHART_COLORS.incoming,
+  outgoing: CHART_COLORS.outgoing,
+  internal: CHART_COLORS.neutral,
+};
 
-const COLORS = ['#4F46E5', '#10B981'];
+type TimeSeriesChart = 'balance' | 'volume' | 'count' | 'runningBalance';
 
-type SortField = 'date' | 'amount' | 'from' | 'to';
-type SortOrder = 'asc' | 'desc';
+const DEFAULT_GRANULARITY: Record<TimeSeriesChart, Granularity> = {
+  balance: 'day',
+  volume: 'month',
+  count: 'day',
+  runningBalance: 'day',
+};
 
 export default function HomePage() {
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [accounts, setAccounts] = useState<BankAccount[]>([]);
+  const router = useRouter();
+  const { t, format } = useI18n();
+  const { data: { transactions, accounts, currentUser, historyStatus, offlineFileName }, setData, setViewQuery } = useDashboardData();
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [token, setToken] = useState<string>('');
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  // Data loaded before navigating to a drill-down page is still there when coming back
+  const [isAuthenticated, setIsAuthenticated] = useState(currentUser !== null);
   const [sortField, setSortField] = useState<SortField>('date');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [selectedBaseUrl, setSelectedBaseUrl] = useState<string>('');
+  const [transactionFilters, setTransactionFilters] = useState<TransactionFilters>(DEFAULT_TRANSACTION_FILTERS);
+  const [loadProgress, setLoadProgress] = useState<TransactionHistoryProgress | null>(null);
+  const [selectedAccount, setSelectedAccount] = useState<string>(ALL_ACCOUNTS);
+  const [dateRange, setDateRange] = useState<DateRange>(DEFAULT_DATE_RANGE);
+  const [comparison, setComparison] = useState<ComparisonSettings>(DEFAULT_COMPARISON);
+  const [granularity, setGranularity] = useState<Record<TimeSeriesChart, Granularity>>(DEFAULT_GRANULARITY);
+  const [currencyView, setCurrencyView] = useState<CurrencyView | null>(null);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
+  const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [customEnvironments, setCustomEnvironments] = useState<ApiEnvironment[]>([]);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [categorySettings, setCategorySettings] = useState<CategorySettings>(DEFAULT_CATEGORY_SETTINGS);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  // `YYYY-MM` shown in the budgets widget; null follows the current month.
+  const [budgetMonth, setBudgetMonth] = useState<string | null>(null);
+  const [forecastDays, setForecastDays] = useState(DEFAULT_FORECAST_DAYS);
+  const [selectedTransactionId, setSelectedTransactionId] = useState<string | null>(null);
+  const [brushZoom, setBrushZoom] = useState<DashboardViewState['zoom']>(null);
+  const [layout, setLayout] = useState<DashboardLayout>(DEFAULT_LAYOUT);
+  // Environment named by a shared link, preselected on the login screen.
+  const [linkedEnvironment, setLinkedEnvironment] = useState<string | null>(null);
+  // The URL is only written once the view it describes has been read from it
+  const [viewRestored, setViewRestored] = useState(false);
 
-  const baseUrls = ['https://develop.czechibank.ostrava.digital/api/v1', 'https://praha.czechibank.ostrava.digital/api/v1', 'https://ostrava.czechibank.ostrava.digital/api/v1'];
-  // Load token and baseUrl from localStorage on mount
+  // Resume the server-side session, if there is one, on mount
   useEffect(() => {
-    const savedToken = localStorage.getItem('czechibank_api_key');
-    const savedBaseUrl = localStorage.getItem('czechibank_base_url');
-    if (savedToken && savedBaseUrl) {
-      setToken(savedToken);
-      setSelectedBaseUrl(savedBaseUrl);
-      fetchData(savedToken, savedBaseUrl);
-    } else {
-      setInitialLoading(false);
-    }
+    // Keys saved by earlier versions must not linger in localStorage
+    localStorage.removeItem('czechibank_api_key');
+    localStorage.removeItem('czechibank_base_url');
+    setExchangeRates(loadExchangeRates());
+    setCustomEnvironments(loadCustomEnvironments());
+    setCategorySettings(loadCategorySettings());
+    setBudgets(loadBudgets());
+
+    const view = decodeViewState(window.location.search);
+    setDateRange(view.dateRange);
+    setComparison(view.comparison);
+    setSelectedAccount(!currentUser || accounts.some(account => account.number === view.selectedAccount) ? view.selectedAccount : ALL_ACCOUNTS);
+    setSortField(view.sortField);
+    setSortOrder(view.sortOrder);
+    setTransactionFilters(view.filters);
+    setCurrencyView(view.currencyView);
+    setBrushZoom(view.zoom);
+    setLinkedEnvironment(view.environment);
+    setViewRestored(true);
+
+    getSessionStatus()
+      .then(async status => {
+        if (!status.authenticated || currentUser) {
+          applySessionStatus(status);
+          setInitialLoading(false);
+          return;
+        }
+        // A link made in another environment opens the saved profile for it, if there is one
+        const linked = status.profiles?.find(profile => profile.baseUrl === view.environment && profile.id !== status.activeProfileId);
+        const active = linked ? await switchProfile(linked.id).catch(() => status) : status;
+        applySessionStatus(active);
+        return fetchData(active.activeProfileId);
+      })
+      .catch(() => setInitialLoading(false));
   }, []);
 
-  const fetchData = async (authToken: string, baseUrl: string) => {
+  // Keep the view in the query string, so reloading or sharing the link shows the same view
+  const activeBaseUrl = profiles.find(profile => profile.id === activeProfileId)?.baseUrl ?? null;
+  useEffect(() => {
+    if (!viewRestored) return;
+    const query = encodeViewState({
+      dateRange,
+      comparison,
+      selectedAccount,
+      sortField,
+      sortOrder,
+      filters: transactionFilters,
+      currencyView,
+      zoom: brushZoom,
+      environment: offlineFileName ? null : activeBaseUrl ?? linkedEnvironment,
+    });
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+    setViewQuery(query);
+  }, [viewRestored, dateRange, comparison, selectedAccount, sortField, sortOrder, transactionFilters, currencyView, brushZoom, offlineFileName, activeBaseUrl, linkedEnvironment]);
+
+  // The cookie stops working on its own; this returns to the login screen at the same time
+  useEffect(() => {
+    if (!sessionExpiresAt || offlineFileName) return;
+    const timer = setTimeout(() => {
+      resetDashboard();
+      setError(t('error.sessionExpired'));
+    }, Math.max(0, sessionExpiresAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [sessionExpiresAt, offlineFileName]);
+
+  const updateExchangeRates = (rates: ExchangeRate[]) => {
+    setExchangeRates(rates);
+    saveExchangeRates(rates);
+  };
+
+  const updateCustomEnvironments = (environments: ApiEnvironment[]) => {
+    setCustomEnvironments(environments);
+    saveCustomEnvironments(environments);
+  };
+
+  const environments = [...BUILT_IN_ENVIRONMENTS, ...customEnvironments];
+
+  const updateCategorySettings = (settings: CategorySettings) => {
+    setCategorySettings(settings);
+    saveCategorySettings(settings);
+  };
+
+  const updateBudgets = (budgets: Budget[]) => {
+    setBudgets(budgets);
+    saveBudgets(budgets);
+  };
+
+  // Each user gets their own layout, also when switching profiles in one session
+  useEffect(() => {
+    setLayout(currentUser ? loadLayout(currentUser.id) : DEFAULT_LAYOUT);
+  }, [currentUser?.id]);
+
+  const updateLayout = (layout: DashboardLayout) => {
+    setLayout(layout);
+    if (currentUser) saveLayout(currentUser.id, layout);
+  };
+
+  const setCategoryOverride = (transactionId: string, category: string | null) => {
+    const overrides = Object.fromEntries(Object.entries(categorySettings.overrides).filter(([id]) => id !== transactionId));
+    updateCategorySettings({ ...categorySettings, overrides: category ? { ...overrides, [transactionId]: category } : overrides });
+  };
+
+  const applySessionStatus = (status: SessionStatus) => {
+    setProfiles(status.profiles ?? []);
+    setActiveProfileId(status.activeProfileId ?? null);
+    setSessionExpiresAt(status.expiresAt ?? null);
+  };
+
+  // Logs in, or adds a profile while logged in, and loads its data
+  const connect = async ({ baseUrl, apiKey, label }: Connection) => {
+    setLoading(true);
+    setError(null);
+    setProfileError(null);
+    let status: SessionStatus;
+    try {
+      status = await saveProfile(baseUrl, apiKey, label);
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      const message = t('error.login', { message: error instanceof Error ? error.message : t('error.unknown') });
+      setError(message);
+      setProfileError(message);
+      setLoading(false);
+      return false;
+    }
+    applySessionStatus(status);
+    setSelectedAccount(ALL_ACCOUNTS);
+    setCurrencyView(null);
+    await fetchData(status.activeProfileId);
+    return true;
+  };
+
+  const changeProfile = async (profileId: string, request: (profileId: string) => Promise<SessionStatus>) => {
+    setLoading(true);
+    setProfileError(null);
+    try {
+      const status = await request(profileId);
+      applySessionStatus(status);
+      if (!status.authenticated) {
+        resetDashboard();
+        setLoading(false);
+        return;
+      }
+      setSelectedAccount(ALL_ACCOUNTS);
+      setCurrencyView(null);
+      await fetchData(status.activeProfileId);
+    } catch (error) {
+      console.error('Error changing profile:', error);
+      setProfileError(error instanceof Error ? error.message : t('error.changeProfile'));
+      setLoading(false);
+    }
+  };
+
+  const fetchData = async (profileId: string | undefined) => {
     setLoading(true);
     setError(null);
+    setLoadProgress(null);
     try {
-      const headers = { 'x-api-key': authToken };
-      
-      const [transactionsRes, accountsRes, userRes] = await Promise.all([
-        axios.get(`${baseUrl}/transactions?limit=1000`, { withCredentials: false, headers }),
-        axios.get(`${baseUrl}/bank-account`, { withCredentials: false, headers }),
-        axios.get(`${baseUrl}/user`, { withCredentials: false, headers }),
-      ]);
-      
-      setTransactions(transactionsRes.data.data.transactions);
-      setAccounts(accountsRes.data.data.bankAccounts);
-      setCurrentUser(userRes.data.data);
+      const data = await fetchDashboardData(setLoadProgress);
+      setData(data);
+      setSelectedAccount(selected => data.accounts.some(account => account.number === selected) ? selected : ALL_ACCOUNTS);
 
       setIsAuthenticated(true);
-      localStorage.setItem('czechibank_api_key', authToken);
-      localStorage.setItem('czechibank_base_url', baseUrl);
     } catch (error) {
       console.error('Error fetching data:', error);
-      if (axios.isAxiosError(error)) {
-        if (error.response?.status === 401) {
-          setError('Authentication failed. Please check your API key and try again.');
-          localStorage.removeItem('czechibank_api_key');
-          localStorage.removeItem('czechibank_base_url');
-        } else if (error.response?.status === 404) {
-          setError('API endpoint not found. Please verify the API server is running and the endpoints are correct.');
-        } else if (error.code === 'ECONNREFUSED') {
-          setError('Could not connect to the API server. Please make sure it is running at http://localhost:3000');
+      if (error instanceof CzechiBankApiError) {
+        if (error.status === 401) {
+          setError(t('error.authentication'));
+          // Forget the rejected profile; any others stay available on the login screen
+          if (profileId) removeProfile(profileId).then(applySessionStatus).catch(() => undefined);
+        } else if (error.status === 404) {
+          setError(t('error.notFound'));
+        } else if (error.status === 502) {
+          setError(t('error.connection', { message: error.message }));
         } else {
-          setError(`Failed to fetch data: ${error.message}`);
+          setError(t('error.fetch', { message: error.message }));
         }
+      } else if (error instanceof CzechiBankResponseError) {
+        setError(t('error.format', { message: error.message }));
       } else {
-        setError('An unexpected error occurred. Please try again.');
+        setError(t('error.unexpected'));
       }
       setIsAuthenticated(false);
     } finally {
       setLoading(false);
       setInitialLoading(false);
+      setLoadProgress(null);
     }
   };
 
-  // Process data for charts
-  const balanceData = transactions
-    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
-    .reduce((acc: { date: string; balance: number }[], tx) => {
-      const lastBalance = acc.length > 0 ? acc[acc.length - 1].balance : 0;
-      // Check if the current user is receiving money based on user ID
-      const isIncomingTransaction = tx.to.user.id === currentUser?.id;
-      const transactionAmount = isIncomingTransaction ? Math.abs(tx.amount) : -Math.abs(tx.amount);
-      const newBalance = lastBalance + transactionAmount;
-      const date = new Date(tx.createdAt).toLocaleString('cs-CZ', {
-        month: 'numeric',
-        day: 'numeric'
-      });
-      
-      // If we already have an entry for this date, update it
-      const existingDateIndex = acc.findIndex(item => item.date === date);
-      if (existingDateIndex !== -1) {
-        acc[existingDateIndex].balance = newBalance;
-        return acc;
-      }
-      
-      return [...acc, { date, balance: newBalance, transactionAmount }];
-    }, []);
-
-  const monthlyData = transactions.reduce((acc: any, tx) => {
-    const month = new Date(tx.createdAt).toLocaleString('default', { month: 'long' });
-    const isIncomingTransaction = tx.to.user.id === currentUser?.id;
-    const amount = Math.abs(tx.amount);
-    
-    if (!acc[month]) {
-      acc[month] = { month, incoming: 0, outgoing: 0 };
-    }
-    
-    if (isIncomingTransaction) {
-      acc[month].incoming += amount;
-    } else {
-      acc[month].outgoing -= amount; // Make outgoing negative
-    }
-    
-    return acc;
-  }, {});
-
-  const monthlyChartData = Object.values(monthlyData);
-
-  const transactionTypes = transactions.reduce((acc: { Income: number; Expense: number }, tx) => {
-    const isIncomingTransaction = tx.to.user.id === currentUser?.id;
-    const amount = Math.abs(tx.amount);
-    
-    if (isIncomingTransaction) {
-      acc.Income = (acc.Income || 0) + amount;
-    } else {
-      acc.Expense = (acc.Expense || 0) + amount;
-    }
-    
-    return acc;
-  }, { Income: 0, Expense: 0 });
-
-  const transactionStats = {
-    totalTransactions: transactions.length,
-    totalVolume: transactions.reduce((sum, tx) => sum + Math.abs(tx.amount), 0),
-    averageAmount: transactions.length > 0 
-      ? Math.round(transactions.reduce((sum, tx) => sum + Math.abs(tx.amount), 0) / transactions.length)
-      : 0,
-    largestTransaction: transactions.length > 0
-      ? Math.max(...transactions.map(tx => Math.abs(tx.amount)))
-      : 0,
-    smallestTransaction: transactions.length > 0
-      ? Math.min(...transactions.map(tx => Math.abs(tx.amount)))
-      : 0,
+  // Offline mode: everything is computed from an imported file, nothing is fetched or stored
+  const loadOfflineDataset = (dataset: OfflineDataset, fileName: string) => {
+    setData({
+      transactions: dataset.transactions,
+      accounts: dataset.accounts,
+      currentUser: dataset.user,
+      historyStatus: { complete: true },
+      offlineFileName: fileName,
+    });
+    setSelectedAccount(ALL_ACCOUNTS);
+    setError(null);
+    setIsAuthenticated(true);
   };
 
-  const topPartners = transactions.reduce((acc: { [key: string]: { name: string, incoming: number, outgoing: number } }, tx) => {
-    const isIncoming = tx.to.user.id === currentUser?.id;
-    const partnerName = isIncoming ? tx.from.user.name : tx.to.user.name;
-    const amount = Math.abs(tx.amount);
+  const resetDashboard = () => {
+    setIsAuthenticated(false);
+    setSessionExpiresAt(null);
+    setData(EMPTY_DASHBOARD_DATA);
+    setSelectedAccount(ALL_ACCOUNTS);
+    setDateRange(DEFAULT_DATE_RANGE);
+    setComparison(DEFAULT_COMPARISON);
+    setTransactionFilters(DEFAULT_TRANSACTION_FILTERS);
+    setCurrencyView(null);
+    setBrushZoom(null);
+  };
 
-    if (!acc[partnerName]) {
-      acc[partnerName] = { name: partnerName, incoming: 0, outgoing: 0 };
-    }
+  const logout = async () => {
+    await endSession().catch(error => console.error('Error ending session:', error));
+    applySessionStatus({ authenticated: false });
+    resetDashboard();
+  };
 
-    if (isIncoming) {
-      acc[partnerName].incoming += amount;
-    } else {
-      acc[partnerName].outgoing += amount;
-    }
+  const progressLabel = loadProgress
+    ? loadProgress.total
+      ? t('progress.loadedOf', { loaded: loadProgress.loaded, total: loadProgress.total })
+      : t('progress.loadedPage', { loaded: loadProgress.loaded, page: loadProgress.page })
+    : null;
+  const incomplete = historyStatus.incompleteReason;
+  const incompleteReason = incomplete?.type === 'pageFailed'
+    ? t('history.pageFailed', { page: incomplete.page, error: incomplete.error })
+    : incomplete?.type === 'pageLimit'
+      ? t('history.pageLimit', { pages: incomplete.pages })
+      : incomplete?.type === 'pagingUnsupported'
+        ? t('history.pagingUnsupported')
+        : '';
+
+  // Derivations over the whole history are memoized, so they only rerun when the
+  // transactions, the account selection, the currency view or the rates change
+  const ownAccounts = useMemo(() => getAccountScope(accounts, ALL_ACCOUNTS), [accounts]);
+  const accountScope = useMemo(() => getAccountScope(accounts, selectedAccount), [accounts, selectedAccount]);
+  const scopedTransactions = useMemo(() => transactions.filter(tx => involvesScope(tx, accountScope)), [transactions, accountScope]);
+  const resolvedRange = resolveDateRange(dateRange);
+  const rangedTransactions = scopedTransactions.filter(tx => isWithinRange(tx.createdAt, resolvedRange));
 
-    return acc;
-  }, {});
+  const accountContext = useMemo(() => ({ ownAccounts, scope: accountScope }), [ownAccounts, accountScope]);
 
-  const topPartnersData = Object.values(topPartners)
-    .map(partner => ({
-      name: partner.name,
-      incoming: partner.incoming,
-      outgoing: partner.outgoing,
-      total: partner.incoming + partner.outgoing
-    }))
-    .sort((a, b) => b.total - a.total)
-    .slice(0, 5);
+  // Amounts in different currencies are never summed as they are: charts show either one
+  // currency natively or everything converted with the exchange-rate table
+  const availableCurrencies = [...new Set([...accounts.map(account => account.currency), ...transactions.map(tx => tx.currency)])].sort();
+  const defaultCurrency = accounts.find(account => accountScope.has(account.number))?.currency ?? availableCurrencies[0] ?? PIVOT_CURRENCY;
+  const activeCurrencyView: CurrencyView = currencyView && (currencyView.mode === 'converted' || availableCurrencies.includes(currencyView.currency))
+    ? currencyView
+    : { mode: 'native', currency: defaultCurrency };
+  const viewCurrency = activeCurrencyView.currency;
+  const viewMode = activeCurrencyView.mode;
+  const { transactions: viewTransactions, missingRates } = useMemo(
+    () => applyCurrencyView(scopedTransactions, { mode: viewMode, currency: viewCurrency }, exchangeRates),
+    [scopedTransactions, viewMode, viewCurrency, exchangeRates],
+  );
+  const chartTransactions = viewTransactions.filter(tx => isWithinRange(tx.createdAt, resolvedRange));
+
+  // Process data for charts
+  const comparisonRange = getComparisonRange(dateRange, resolvedRange, comparison);
+  const comparisonTransactions = comparisonRange ? viewTransactions.filter(tx => isWithinRange(tx.createdAt, comparisonRange)) : [];
+  const balanceData = overlayBalance(
+    computeBalanceData(chartTransactions, accountContext, granularity.balance, resolvedRange),
+    comparisonRange ? computeBalanceData(comparisonTransactions, accountContext, granularity.balance, comparisonRange) : [],
+  );
+  const volumeData = computeVolume(chartTransactions, accountContext, granularity.volume, resolvedRange);
+  const transactionTypes = computeTransactionTypes(chartTransactions, accountContext);
+  const transactionStats = computeTransactionStats(chartTransactions);
+  // Judged against the whole history of the selected accounts, in their own currencies
+  const anomalies = useMemo(() => detectAnomalies(scopedTransactions, accountContext), [scopedTransactions, accountContext]);
+  const balanceAnomalies = countAnomaliesByPeriod(chartTransactions, anomalies, granularity.balance);
+  const runningBalanceAnomalies = countAnomaliesByPeriod(chartTransactions, anomalies, granularity.runningBalance);
+  const topPartnersData = computeTopPartners(chartTransactions, accountContext);
+  const transactionCountData = computeTransactionCounts(chartTransactions, granularity.count, resolvedRange);
+  const currencyTotals = computeCurrencyTotals(rangedTransactions, accountContext);
+  // Keyed by id, so it also covers the converted copies in chartTransactions
+  const categories = categorizeTransactions(rangedTransactions, categorySettings, accountContext);
+  const categoryOptions = listCategories(categorySettings);
+  const categoryTotals = computeCategoryTotals(chartTransactions, categories, accountContext);
+
+  // Budgets are about everything the user spends, so they ignore the account selection
+  const currentMonth = toBucketKey(new Date(), 'month');
+  const budgetContext = useMemo(() => ({ ownAccounts, scope: ownAccounts }), [ownAccounts]);
+  const shownBudgetMonth = budgetMonth ?? currentMonth;
+  const budgetStatuses = useMemo(() => evaluateBudgets(budgets, transactions, {
+    month: shownBudgetMonth,
+    categories: categorySettings,
+    context: budgetContext,
+    rates: exchangeRates,
+  }), [budgets, transactions, shownBudgetMonth, categorySettings, budgetContext, exchangeRates]);
+  const budgetFlags = useMemo(() => getBudgetFlags(budgetStatuses), [budgetStatuses]);
+  const budgetPartners = useMemo(() => computeTopPartners(transactions, budgetContext, Infinity), [transactions, budgetContext]);
+  // Detection needs the whole history, not just the selected range
+  const recurringSeries = useMemo(() => detectRecurring(scopedTransactions, accountContext), [scopedTransactions, accountContext]);
+  const comparisonMetrics = comparisonRange
+    ? compareSummaries(computePeriodSummary(chartTransactions, accountContext), computePeriodSummary(comparisonTransactions, accountContext))
+    : [];
+  const comparisonPartners = comparisonRange ? comparePartners(chartTransactions, comparisonTransactions, accountContext) : [];
+
+  // Running balance is anchored on the current balance of the selected account(s),
+  // rewound past everything that happened after the end of the selected period
+  const closingBalance = computeClosingBalance(
+    getViewBalance(accounts, accountScope, activeCurrencyView, exchangeRates),
+    viewTransactions.filter(tx => isAfterRange(tx.createdAt, resolvedRange)),
+    accountContext,
+  );
+  const runningBalanceData = computeRunningBalance(chartTransactions, accountContext, closingBalance, granularity.runningBalance, resolvedRange);
+
+  // The forecast starts today, so it only continues a range that reaches up to now.
+  // Recurring payments are detected again on the view's amounts to stay in its currency.
+  const showForecast = !isAfterRange(new Date(), resolvedRange);
+  const viewRecurring = useMemo(() => detectRecurring(viewTransactions, accountContext), [viewTransactions, accountContext]);
+  const forecast = forecastBalance(
+    viewTransactions,
+    accountContext,
+    getViewBalance(accounts, accountScope, activeCurrencyView, exchangeRates),
+    viewRecurring,
+    forecastDays,
+  );
+  const runningBalanceChartData = showForecast ? appendForecast(runningBalanceData, forecast, granularity.runningBalance) : runningBalanceData;
+  // A zoom from the URL applies while its periods are on the chart; otherwise the last 20
+  // periods and the forecast are shown
+  const zoomStart = brushZoom ? runningBalanceChartData.findIndex(point => point.period === brushZoom.start) : -1;
+  const zoomEnd = brushZoom ? runningBalanceChartData.findIndex(point => point.period === brushZoom.end) : -1;
+  const brushRange = zoomStart >= 0 && zoomEnd >= zoomStart
+    ? { startIndex: zoomStart, endIndex: zoomEnd }
+    : { startIndex: Math.max(0, runningBalanceData.length - 20), endIndex: Math.max(0, runningBalanceChartData.length - 1) };
+
+  const openPartner = (entry: { payload?: PartnerVolume }) => {
+    if (entry.payload) router.push(partnerHref(entry.payload.id));
+  };
+
+  const selectedTransaction = selectedTransactionId ? transactions.find(tx => tx.id === selectedTransactionId) : undefined;
+  const closeTransactionPanel = useCallback(() => setSelectedTransactionId(null), []);
+
+  // Recharts types this as either a drag event or the new index range
+  const zoomRunningBalance = (range: object) => {
+    if (!('startIndex' in range) || !('endIndex' in range)) return;
+    const start = runningBalanceChartData[range.startIndex as number];
+    const end = runningBalanceChartData[range.endIndex as number];
+    setBrushZoom(start && end ? { start: start.period, end: end.period } : null);
+  };
+
+  const setChartGranularity = (chart: TimeSeriesChart) => (value: Granularity) => setGranularity({ ...granularity, [chart]: value });
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -226,85 +460,519 @@ export default function HomePage() {
     }
   };
 
-  const getSortIcon = (field: SortField) => {
-    if (sortField !== field) return <ChevronsUpDown className="w-4 h-4" />;
-    return sortOrder === 'asc' ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />;
-  };
-
-  const sortedTransactions = [...transactions].sort((a, b) => {
-    const multiplier = sortOrder === 'asc' ? 1 : -1;
-    
-    switch (sortField) {
-      case 'date':
-        return (new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()) * multiplier;
-      case 'amount':
-        return (a.amount - b.amount) * multiplier;
-      case 'from':
-        return a.from.user.name.localeCompare(b.from.user.name) * multiplier;
-      case 'to':
-        return a.to.user.name.localeCompare(b.to.user.name) * multiplier;
-      default:
-        return 0;
-    }
-  });
-
-  // Add after other data processing
-  const dailyTransactionCount = transactions.reduce((acc: { [key: string]: number }, tx) => {
-    const date = new Date(tx.createdAt).toLocaleString('default', {
-      month: 'numeric',
-      day: 'numeric'
-    });
-    acc[date] = (acc[date] || 0) + 1;
-    return acc;
-  }, {});
-
-  const dailyTransactionData = Object.entries(dailyTransactionCount)
-    .map(([date, count]) => ({ date, count }))
-    .sort((a, b) => {
-      const [aMonth, aDay] = a.date.split('/').map(Number);
-      const [bMonth, bDay] = b.date.split('/').map(Number);
-      return (aMonth - bMonth) || (aDay - bDay);
-    });
+  const currencies = [...new Set(rangedTransactions.map(tx => tx.currency))].sort();
+  const tableTransactions = sortTransactions(
+    filterTransactions(rangedTransactions, transactionFilters, accountContext, categories),
+    sortField,
+    sortOrder,
+  );
 
-  // Calculate running balance using current account balance
-  const runningBalanceData = transactions
-    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()) // Sort newest first
-    .reduce((acc: { date: string; balance: number; incoming: number; outgoing: number }[], tx) => {
-      const currentBalance = acc.length > 0 ? acc[acc.length - 1].balance : (accounts[0]?.balance || 0);
-      const isIncomingTransaction = tx.to.user.id === currentUser?.id;
-      const transactionAmount = isIncomingTransaction ? -Math.abs(tx.amount) : Math.abs(tx.amount); // Reverse the sign since we're going backwards
-      const newBalance = currentBalance + transactionAmount;
-      const date = new Date(tx.createdAt).toLocaleString('cs-CZ', {
-        month: 'numeric',
-        day: 'numeric'
-      });
-      
-      // Calculate daily volume split into incoming and outgoing
-      const existingDateIndex = acc.findIndex(item => item.date === date);
-      if (existingDateIndex !== -1) {
-        if (isIncomingTransaction) {
-          acc[existingDateIndex].incoming += Math.abs(tx.amount);
-        } else {
-          acc[existingDateIndex].outgoing -= Math.abs(tx.amount); // Make outgoing negative
-        }
-        acc[existingDateIndex].balance = newBalance;
-        return acc;
-      }
-      
-      return [...acc, { 
-        date, 
-        balance: newBalance, 
-        incoming: isIncomingTransaction ? Math.abs(tx.amount) : 0,
-        outgoing: isIncomingTransaction ? 0 : -Math.abs(tx.amount) // Make outgoing negative
-      }];
-    }, [])
-    .reverse(); // Reverse back to chronological order
+  // Every widget of the customizable grid, shown in the order and width of the saved layout
+  const widgets: Record<WidgetId, ReactNode> = {
+    currency: (
+      <CurrencySettings
+        currencies={availableCurrencies}
+        view={activeCurrencyView}
+        onViewChange={setCurrencyView}
+        rates={exchangeRates}
+        onRatesChange={updateExchangeRates}
+        missingRates={missingRates}
+      />
+    ),
+    comparison: (
+      <PeriodComparison
+        settings={comparison}
+        onChange={setComparison}
+        currentRange={resolvedRange}
+        comparisonRange={comparisonRange}
+        metrics={comparisonMetrics}
+        partners={comparisonPartners}
+        currency={viewCurrency}
+      />
+    ),
+    categoryRules: <CategoryRulesEditor settings={categorySettings} onChange={updateCategorySettings} />,
+    budgets: (
+      <BudgetsWidget
+        statuses={budgetStatuses}
+        onBudgetsChange={updateBudgets}
+        month={shownBudgetMonth}
+        currentMonth={currentMonth}
+        onMonthChange={(month) => setBudgetMonth(month === currentMonth ? null : month)}
+        categoryOptions={categoryOptions}
+        partnerOptions={budgetPartners}
+        currencies={availableCurrencies}
+        defaultCurrency={viewCurrency}
+      />
+    ),
+    recurring: <RecurringPayments series={recurringSeries} />,
+    balance: (
+      <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <h2 className="text-xl font-semibold text-gray-800">{t('charts.balanceOverTime')}</h2>
+          <GranularitySelect value={granularity.balance} onChange={setChartGranularity('balance')} />
+        </div>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={balanceData}>
+              <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
+              <XAxis 
+                dataKey="period" 
+                stroke={CHART_COLORS.axis}
+                angle={-45}
+                textAnchor="end"
+                height={80}
+                tickMargin={25}
+                interval="preserveStartEnd"
+                minTickGap={50}
+                tick={CHART_TICK}
+                tickFormatter={(value: string) => format.bucket(value, granularity.balance)}
+              />
+              <YAxis 
+                stroke={CHART_COLORS.axis}
+                tickFormatter={format.number}
+                width={120}
+                domain={['auto', 'auto']}
+                padding={{ top: 20, bottom: 20 }}
+              />
+              <Tooltip 
+                contentStyle={CHART_TOOLTIP_STYLE}
+                formatter={(value: number, name: string, item: { dataKey?: unknown; payload?: { previousPeriod?: string } }) => [
+                  format.number(value),
+                  item.dataKey === 'previousBalance' && item.payload?.previousPeriod
+                    ? `${name} (${format.bucket(item.payload.previousPeriod, granularity.balance)})`
+                    : name,
+                ]}
+                labelFormatter={(label: string) => format.bucket(label, granularity.balance)}
+              />
+              <Legend />
+              <Line 
+                type="monotone" 
+                dataKey="balance" 
+                name={t('charts.balanceIn', { currency: viewCurrency })}
+                stroke={CHART_COLORS.balance} 
+                strokeWidth={2}
+                dot={renderAnomalyDot(balanceAnomalies, t)}
+              />
+              {comparisonRange && (
+                <Line
+                  type="monotone"
+                  dataKey="previousBalance"
+                  name={t('charts.comparisonPeriod')}
+                  stroke={CHART_COLORS.neutral}
+                  strokeWidth={2}
+                  strokeDasharray="5 5"
+                  dot={false}
+                />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    ),
+    volume: (
+      <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <h2 className="text-xl font-semibold text-gray-800">{t(`charts.volume.${granularity.volume}`)}</h2>
+          <div className="flex flex-wrap items-center gap-2">
+            <GranularitySelect value={granularity.volume} onChange={setChartGranularity('volume')} />
+            <ExportMenu dataset={`${granularity.volume}-volume`} getRows={() => volumeData} />
+          </div>
+        </div>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={volumeData}>
+              <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
+              <XAxis dataKey="period" stroke={CHART_COLORS.axis} tickFormatter={(value: string) => format.bucket(value, granularity.volume)} />
+              <YAxis 
+                stroke={CHART_COLORS.axis}
+                tickFormatter={format.number}
+                width={120}
+              />
+              <Tooltip 
+                contentStyle={CHART_TOOLTIP_STYLE}
+                formatter={(value: number) => [format.number(value), t(value >= 0 ? 'common.received' : 'common.sent')]}
+                labelFormatter={(label: string) => format.bucket(label, granularity.volume)}
+              />
+              <Legend />
+              <Bar 
+                dataKey="incoming" 
+                name={t('common.received')}
+                fill={CHART_COLORS.incoming}
+                radius={[4, 4, 0, 0]}
+              />
+              <Bar 
+                dataKey="outgoing" 
+                name={t('common.sent')}
+                fill={CHART_COLORS.outgoing}
+                radius={[4, 4, 0, 0]}
+              />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    ),
+    types: (
+      <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20">
+        <h2 className="text-xl font-semibold mb-8 text-gray-800">{t('charts.typeDistribution')}</h2>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <PieChart>
+              <Pie
+                data={Object.entries(transactionTypes).map(([type, value]) => ({ name: t(`charts.type.${type as TransactionDirection}`), value }))}
+                cx="50%"
+                cy="50%"
+                labelLine={true}
+                outerRadius={100}
+                fill={CHART_COLORS.neutral}
+                dataKey="value"
+                paddingAngle={0}
+                label={({ name, value, percent }) => 
+                  `${name}: ${format.number(value)} (${format.number(Math.round(percent * 1000) / 10)} %)`
+                }
+              >
+                {Object.keys(transactionTypes).map(type => (
+                  <Cell key={type} fill={TYPE_COLORS[type as TransactionDirection]} />
+                ))}
+              </Pie>
+              <Tooltip 
+                contentStyle={CHART_TOOLTIP_STYLE}
+              />
+              <Legend />
+            </PieChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    ),
+    partners: (
+      <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <h2 className="text-xl font-semibold text-gray-800">{t('charts.topPartners')}</h2>
+          <div className="flex flex-wrap items-center gap-2">
+            <Link href={PARTNERS_HREF} className="px-2 py-1 text-sm font-medium text-indigo-600 hover:underline">{t('charts.allPartners')}</Link>
+            <ExportMenu
+              dataset="top-partners"
+              getRows={() => topPartnersData.map(({ accounts, ...partner }) => ({ ...partner, accounts: accounts.join(' ') }))}
+            />
+          </div>
+        </div>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={topPartnersData} layout="vertical">
+              <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
+              <XAxis 
+                type="number"
+                stroke={CHART_COLORS.axis}
+                tickFormatter={format.number}
+              />
+              {/* Keyed by id, so partners sharing a name get a bar each */}
+              <YAxis 
+                type="category"
+                dataKey="id" 
+                tickFormatter={(id: string) => topPartnersData.find(partner => partner.id === id)?.name ?? id}
+                stroke={CHART_COLORS.axis}
+                width={120}
+                tick={CHART_TICK}
+              />
+              <Tooltip 
+                contentStyle={CHART_TOOLTIP_STYLE}
+                formatter={(value: number) => [format.number(value), '']}
+                labelFormatter={(id: string) => topPartnersData.find(partner => partner.id === id)?.name ?? id}
+              />
+              <Legend />
+              <Bar 
+                dataKey="incoming" 
+                name={t('common.received')}
+                fill={CHART_COLORS.incoming}
+                stackId="a"
+                radius={[0, 4, 4, 0]}
+                cursor="pointer"
+                onClick={openPartner}
+              />
+              <Bar 
+                dataKey="outgoing" 
+                name={t('common.sent')}
+                fill={CHART_COLORS.outgoing}
+                stackId="a"
+                radius={[0, 4, 4, 0]}
+                cursor="pointer"
+                onClick={openPartner}
+              />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    ),
+    categories: (
+      <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <h2 className="text-xl font-semibold text-gray-800">{t('charts.categoryBreakdown')}</h2>
+          <ExportMenu dataset="categories" getRows={() => categoryTotals} />
+        </div>
+        <div style={{ height: Math.max(200, categoryTotals.length * 44 + 60) }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={categoryTotals} layout="vertical">
+              <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
+              <XAxis type="number" stroke={CHART_COLORS.axis} tickFormatter={format.number} />
+              <YAxis
+                type="category"
+                dataKey="category"
+                tickFormatter={format.category}
+                stroke={CHART_COLORS.axis}
+                width={140}
+                tick={CHART_TICK}
+              />
+              <Tooltip 
+                contentStyle={CHART_TOOLTIP_STYLE}
+                formatter={(value: number, name: string) => [format.amount(value, viewCurrency), name]}
+                labelFormatter={format.category}
+              />
+              <Legend />
+              <Bar dataKey="incoming" name={t('common.received')} fill={CHART_COLORS.incoming} radius={[0, 4, 4, 0]} />
+              <Bar dataKey="outgoing" name={t('common.sent')} fill={CHART_COLORS.outgoing} radius={[0, 4, 4, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    ),
+    count: (
+      <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <h2 className="text-xl font-semibold text-gray-800">{t(`charts.count.${granularity.count}`)}</h2>
+          <div className="flex flex-wrap items-center gap-2">
+            <GranularitySelect value={granularity.count} onChange={setChartGranularity('count')} />
+            <ExportMenu dataset={`${granularity.count}-count`} getRows={() => transactionCountData} />
+          </div>
+        </div>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={transactionCountData}>
+              <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
+              <XAxis 
+                dataKey="period" 
+                stroke={CHART_COLORS.axis}
+                angle={-45}
+                textAnchor="end"
+                height={80}
+                tickMargin={25}
+                interval="preserveStartEnd"
+                minTickGap={50}
+                tick={CHART_TICK}
+                tickFormatter={(value: string) => format.bucket(value, granularity.count)}
+              />
+              <YAxis 
+                stroke={CHART_COLORS.axis}
+                width={50}
+                tickFormatter={(value: number) => format.number(Math.floor(value))}
+              />
+              <Tooltip 
+                contentStyle={CHART_TOOLTIP_STYLE}
+                formatter={(value: number) => [t('common.transactionCount', { count: value }), t('charts.count')]}
+                labelFormatter={(label: string) => format.bucket(label, granularity.count)}
+              />
+              <Legend />
+              <Bar 
+                dataKey="count" 
+                name={t('charts.numberOfTransactions')}
+                fill={CHART_COLORS.neutral}
+                radius={[4, 4, 0, 0]}
+              />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    ),
+    runningBalance: (
+      <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <h2 className="text-xl font-semibold text-gray-800">{t('charts.runningBalance')}</h2>
+          <div className="flex flex-wrap items-center gap-2">
+            <GranularitySelect value={granularity.runningBalance} onChange={setChartGranularity('runningBalance')} />
+            <ExportMenu dataset="running-balance" getRows={() => runningBalanceData} />
+          </div>
+        </div>
+        {showForecast && (
+          <ForecastSummary forecast={forecast} days={forecastDays} onDaysChange={setForecastDays} currency={viewCurrency} />
+        )}
+        <div className="h-[400px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart
+              data={runningBalanceChartData}
+              margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
+              <XAxis 
+                dataKey="period" 
+                stroke={CHART_COLORS.axis}
+                angle={-45}
+                textAnchor="end"
+                height={80}
+                tickMargin={25}
+                interval={0}
+                minTickGap={10}
+                tick={CHART_TICK}
+                tickFormatter={(value: string) => format.bucket(value, granularity.runningBalance)}
+                scale="point"
+              />
+              <YAxis 
+                yAxisId="balance"
+                stroke={CHART_COLORS.balance}
+                tickFormatter={format.number}
+                width={120}
+                domain={['auto', 'auto']}
+                padding={{ top: 20, bottom: 20 }}
+              />
+              <YAxis 
+                yAxisId="volume"
+                orientation="right"
+                stroke={CHART_COLORS.axis}
+                tickFormatter={format.number}
+                width={120}
+                domain={['dataMin', 'dataMax']}
+              />
+              <Tooltip 
+                contentStyle={CHART_TOOLTIP_STYLE}
+                formatter={(value: number | [number, number], name: string) => [
+                  Array.isArray(value)
+                    ? t('common.range', { from: format.number(value[0]), to: format.amount(value[1], viewCurrency) })
+                    : format.amount(value, viewCurrency),
+                  name === 'balance' ? t('common.balance') : name
+                ]}
+                labelFormatter={(label: string) => format.bucket(label, granularity.runningBalance)}
+              />
+              <Legend />
+              <Line 
+                yAxisId="balance"
+                type="monotone" 
+                dataKey="balance" 
+                name={t('charts.runningBalanceLine')}
+                stroke={CHART_COLORS.balance} 
+                strokeWidth={2}
+                dot={renderAnomalyDot(runningBalanceAnomalies, t)}
+              />
+              {showForecast && (
+                <Area
+                  yAxisId="balance"
+                  type="monotone"
+                  dataKey="forecastRange"
+                  name={t('charts.forecastRange')}
+                  stroke="none"
+                  fill={CHART_COLORS.balance}
+                  fillOpacity={0.12}
+                />
+              )}
+              {showForecast && (
+                <Line
+                  yAxisId="balance"
+                  type="monotone"
+                  dataKey="forecast"
+                  name={t('charts.forecast')}
+                  stroke={CHART_COLORS.balance}
+                  strokeWidth={2}
+                  strokeDasharray="5 5"
+                  dot={false}
+                />
+              )}
+              <Bar
+                yAxisId="volume"
+                dataKey="outgoing"
+                name={t('common.sent')}
+                fill={CHART_COLORS.outgoing}
+                radius={[4, 4, 0, 0]}
+                opacity={0.75}
+                barSize={20}
+              />
+              <Bar
+                yAxisId="volume"
+                dataKey="incoming"
+                name={t('common.received')}
+                fill={CHART_COLORS.incoming}
+                radius={[4, 4, 0, 0]}
+                opacity={0.75}
+                barSize={20}
+              />
+              <Brush
+                dataKey="period"
+                height={30}
+                stroke={CHART_COLORS.axis}
+                fill={CHART_COLORS.surface}
+                startIndex={brushRange.startIndex}
+                endIndex={brushRange.endIndex}
+                onDragEnd={zoomRunningBalance}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    ),
+    stats: (
+      <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20">
+        <h2 className="text-xl font-semibold mb-8 text-gray-800">{t('stats.title')}</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-6">
+          <div className="bg-gradient-to-br from-indigo-50 to-indigo-100 dark:from-indigo-950 dark:to-indigo-900 p-6 rounded-xl">
+            <p className="text-sm text-indigo-600 dark:text-indigo-300 font-medium">{t('stats.total')}</p>
+            <p className="text-2xl font-bold text-indigo-900 dark:text-indigo-50">{format.number(transactionStats.totalTransactions)}</p>
+          </div>
+          <div className="bg-gradient-to-br from-emerald-50 to-emerald-100 dark:from-emerald-950 dark:to-emerald-900 p-6 rounded-xl">
+            <p className="text-sm text-emerald-600 dark:text-emerald-300 font-medium">{t('stats.volume')}</p>
+            <p className="text-2xl font-bold text-emerald-900 dark:text-emerald-50">{format.amount(transactionStats.totalVolume, viewCurrency)}</p>
+          </div>
+          <div className="bg-gradient-to-br from-amber-50 to-amber-100 dark:from-amber-950 dark:to-amber-900 p-6 rounded-xl">
+            <p className="text-sm text-amber-600 dark:text-amber-300 font-medium">{t('stats.average')}</p>
+            <p className="text-2xl font-bold text-amber-900 dark:text-amber-50">{format.amount(transactionStats.averageAmount, viewCurrency)}</p>
+          </div>
+          <div className="bg-gradient-to-br from-rose-50 to-rose-100 dark:from-rose-950 dark:to-rose-900 p-6 rounded-xl">
+            <p className="text-sm text-rose-600 dark:text-rose-300 font-medium">{t('stats.largest')}</p>
+            <p className="text-2xl font-bold text-rose-900 dark:text-rose-50">{format.amount(transactionStats.largestTransaction, viewCurrency)}</p>
+          </div>
+          <div className="bg-gradient-to-br from-sky-50 to-sky-100 dark:from-sky-950 dark:to-sky-900 p-6 rounded-xl">
+            <p className="text-sm text-sky-600 dark:text-sky-300 font-medium">{t('stats.smallest')}</p>
+            <p className="text-2xl font-bold text-sky-900 dark:text-sky-50">{format.amount(transactionStats.smallestTransaction, viewCurrency)}</p>
+          </div>
+        </div>
+      </div>
+    ),
+    table: (
+      <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <h2 className="text-xl font-semibold text-gray-800">{t('common.transactions')}</h2>
+          <ExportMenu dataset="transactions" getRows={() => transactionsToRows(tableTransactions, ownAccounts, accountScope, categories)} />
+        </div>
+        {currencyTotals.length > 1 && <CurrencyBreakdown totals={currencyTotals} />}
+        <TransactionsTable
+          transactions={tableTransactions}
+          totalCount={rangedTransactions.length}
+          currencies={currencies}
+          ownAccounts={ownAccounts}
+          accountScope={accountScope}
+          currencyView={activeCurrencyView}
+          exchangeRates={exchangeRates}
+          categories={categories}
+          categoryOverrides={categorySettings.overrides}
+          categoryOptions={categoryOptions}
+          onCategoryOverride={setCategoryOverride}
+          budgetFlags={budgetFlags}
+          anomalies={anomalies}
+          filters={transactionFilters}
+          onFiltersChange={setTransactionFilters}
+          sortField={sortField}
+          sortOrder={sortOrder}
+          onSort={handleSort}
+          selectedTransactionId={selectedTransactionId}
+          onSelectTransaction={setSelectedTransactionId}
+        />
+      </div>
+    ),
+  };
 
   // Show loading screen while checking localStorage and fetching initial data
   if (initialLoading) {
     return (
-      <div className="min-h-screen bg-gradient-to-br from-indigo-500 to-purple-500 flex items-center justify-center">
-        <div className="bg-white/90 backdrop-blur-3xl p-8 rounded-2xl shadow-xl border border-white/20 w-full max-w-md">
+      <div className="min-h-screen bg-gradient-to-br from-indigo-500 to-purple-500 dark:from-indigo-950 dark:to-purple-950 flex items-center justify-center">
+        <div className="absolute top-6 right-6 flex items-center gap-2">
+          <ThemeSwitcher />
+          <LanguageSwitcher />
+        </div>
+        <div className="bg-card/90 backdrop-blur-3xl p-8 rounded-2xl shadow-xl border border-white/20 w-full max-w-md">
           <div className="flex flex-col items-center">
             <div className="relative mb-8">
               <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-b-4 border-indigo-600"></div>
@@ -312,8 +980,8 @@ export default function HomePage() {
                 Loading...
               </div> */}
             </div>
-            <h1 className="text-2xl font-bold text-gray-800 mb-2">CzechiBank Analytics</h1>
-            <p className="text-gray-600">Loading your financial data...</p>
+            <h1 className="text-2xl font-bold text-gray-800 mb-2">{t('app.title')}</h1>
+            <p className="text-gray-600">{progressLabel ?? t('login.loadingData')}</p>
           </div>
         </div>
       </div>
@@ -321,60 +989,60 @@ export default function HomePage() {
   }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-indigo-500 to-purple-500">
+    <div className="min-h-screen bg-gradient-to-br from-indigo-500 to-purple-500 dark:from-indigo-950 dark:to-purple-950">
       {!isAuthenticated ? (
         <div className="h-screen flex items-center justify-center">
-          <div className="bg-white/90 backdrop-blur-3xl p-8 rounded-2xl shadow-xl border border-white/20 w-full max-w-md">
+          <div className="absolute top-6 right-6 flex items-center gap-2">
+            <ThemeSwitcher />
+            <LanguageSwitcher />
+          </div>
+          <div className="bg-card/90 backdrop-blur-3xl p-8 rounded-2xl shadow-xl border border-white/20 w-full max-w-md">
             <h1 className="text-4xl font-bold mb-8 text-transparent bg-clip-text bg-gradient-to-r from-indigo-600 to-purple-600">
-              CzechiBank Analytics
+              {t('app.title')}
             </h1>
-            <p className="text-gray-600 mb-8">Access your financial insights and transaction analysis</p>
+            <p className="text-gray-600 mb-8">{t('login.subtitle')}</p>
             <div className="space-y-4">
-              <div>
-                <label htmlFor="baseUrl" className="block text-sm font-medium text-gray-700 mb-1">
-                  Select API Base URL
-                </label>
-                <select
-                  id="baseUrl"
-                  value={selectedBaseUrl}
-                  onChange={(e) => setSelectedBaseUrl(e.target.value)}
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                >
-                  <option value="">Select API Provider</option>
-                  {baseUrls.map((url, index) => (
-                    <option key={index} value={url}>
-                      {url.includes('develop') ? 'Develop' : url.includes('praha') ? 'Praha' : 'Ostrava'} ({url})
-                    </option>
-                  ))}
-                </select>
-              </div>
-              <div>
-                <label htmlFor="token" className="block text-sm font-medium text-gray-700 mb-1">
-                  Enter your API Key to continue
-                </label>
-                <input
-                  type="text"
-                  id="token"
-                  value={token || ''}
-                  onChange={(e) => setToken(e.target.value)}
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                  placeholder="Your API Key here"
-                  autoComplete="off"
-                />
-              </div>
-              <button
-                onClick={() => fetchData(token, selectedBaseUrl)}
-                disabled={loading || !selectedBaseUrl || !token}
-                className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {loading ? 'Loading...' : 'Continue'}
-              </button>
+              {profiles.length > 0 && (
+                <div>
+                  <p className="block text-sm font-medium text-gray-700 mb-2">{t('login.savedProfiles')}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {profiles.map(profile => (
+                      <button
+                        key={profile.id}
+                        onClick={() => changeProfile(profile.id, switchProfile)}
+                        disabled={loading}
+                        title={profile.baseUrl}
+                        className="px-3 py-1.5 rounded-lg text-sm font-medium bg-indigo-50 text-indigo-700 hover:bg-indigo-100 disabled:opacity-50"
+                      >
+                        {profile.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <ConnectionForm
+                environments={environments}
+                onEnvironmentsChange={updateCustomEnvironments}
+                initialBaseUrl={linkedEnvironment ?? undefined}
+                submitLabel={t('login.continue')}
+                busy={loading}
+                onSubmit={connect}
+              />
+              {loading && progressLabel && (
+                <p className="text-gray-600 text-sm text-center">{progressLabel}</p>
+              )}
               {error && (
                 <div className="text-red-600 text-sm mt-2">
                   {error}
                 </div>
               )}
             </div>
+            <div className="flex items-center gap-4 my-8">
+              <div className="h-px flex-1 bg-gray-200"></div>
+              <span className="text-sm text-gray-500">{t('login.offline')}</span>
+              <div className="h-px flex-1 bg-gray-200"></div>
+            </div>
+            <OfflineImport onLoad={loadOfflineDataset} />
           </div>
         </div>
       ) : (
@@ -382,490 +1050,107 @@ export default function HomePage() {
           <div className="flex justify-between items-center mb-12">
             <div className="flex items-center space-x-8">
               <h1 className="text-4xl font-bold text-white">
-                CzechiBank Analytics
+                {t('app.title')}
               </h1>
               {currentUser && (
                 <div className="flex items-center space-x-4 text-white/90">
                   <div className="h-8 w-px bg-white/20"></div>
                   <div className="flex flex-col">
                     <span className="font-medium">{currentUser.name}</span>
-                    <span className="text-sm text-white/70">{currentUser.email}</span>
+                    <span className="text-sm text-white/70">{offlineFileName ? t('header.offline', { file: offlineFileName }) : currentUser.email}</span>
                   </div>
                 </div>
               )}
+              {!offlineFileName && profiles.length > 0 && (
+                <div className="flex flex-col gap-1">
+                  <ProfileSwitcher
+                    profiles={profiles}
+                    activeProfileId={activeProfileId}
+                    environments={environments}
+                    onEnvironmentsChange={updateCustomEnvironments}
+                    busy={loading}
+                    onSwitch={(profileId) => changeProfile(profileId, switchProfile)}
+                    onRemove={(profileId) => changeProfile(profileId, removeProfile)}
+                    onAdd={connect}
+                  />
+                  {profileError && <span className="text-xs text-red-100">{profileError}</span>}
+                </div>
+              )}
+              {accounts.length > 0 && (
+                <select
+                  aria-label={t('header.account')}
+                  value={selectedAccount}
+                  onChange={(e) => setSelectedAccount(e.target.value)}
+                  className="px-4 py-2 rounded-lg bg-card/90 text-gray-800 border border-white/20 focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value={ALL_ACCOUNTS}>{t('header.allAccounts')}</option>
+                  {accounts.map(account => (
+                    <option key={account.id} value={account.number}>
+                      {account.number} ({account.currency})
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <div className="flex items-center gap-4">
+              <ThemeSwitcher />
+              <LanguageSwitcher />
+              <button
+                onClick={logout}
+                className="px-6 py-2.5 bg-gradient-to-r from-red-500 to-red-600 text-white rounded-lg font-medium hover:from-red-600 hover:to-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-all duration-200 shadow-lg hover:shadow-xl"
+              >
+                {t('header.logout')}
+              </button>
             </div>
-            <button
-              onClick={() => {
-                setToken('');
-                setSelectedBaseUrl('');
-                setIsAuthenticated(false);
-                setTransactions([]);
-                setAccounts([]);
-                localStorage.removeItem('czechibank_api_key');
-                localStorage.removeItem('czechibank_base_url');
-              }}
-              className="px-6 py-2.5 bg-gradient-to-r from-red-500 to-red-600 text-white rounded-lg font-medium hover:from-red-600 hover:to-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-all duration-200 shadow-lg hover:shadow-xl"
-            >
-              Logout
-            </button>
           </div>
           
           {loading ? (
-            <div className="flex items-center justify-center min-h-[400px]">
+            <div className="flex flex-col items-center justify-center min-h-[400px]">
               <div className="relative">
                 <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-b-4 border-indigo-600"></div>
                 <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-indigo-600 font-medium">
-                  Loading...
+                  {t('common.loading')}
                 </div>
               </div>
+              {progressLabel && <p className="mt-6 text-white/90">{progressLabel}</p>}
             </div>
           ) : (
             <>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-                {/* Balance Over Time Chart */}
-                <div className="bg-white p-8 rounded-2xl shadow-xl border border-white/20">
-                  <h2 className="text-xl font-semibold mb-8 text-gray-800">Balance Over Time</h2>
-                  <div className="h-[300px]">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <LineChart data={balanceData}>
-                        <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
-                        <XAxis 
-                          dataKey="date" 
-                          stroke="#6B7280"
-                          angle={-45}
-                          textAnchor="end"
-                          height={80}
-                          tickMargin={25}
-                          interval="preserveStartEnd"
-                          minTickGap={50}
-                          tick={{
-                            fontSize: 12,
-                            fill: '#4B5563'
-                          }}
-                        />
-                        <YAxis 
-                          stroke="#6B7280"
-                          tickFormatter={(value: number) => `${value}`}
-                          width={120}
-                          domain={['auto', 'auto']}
-                          padding={{ top: 20, bottom: 20 }}
-                        />
-                        <Tooltip 
-                          contentStyle={{ 
-                            backgroundColor: 'rgba(255, 255, 255, 0.9)',
-                            border: '1px solid #E5E7EB',
-                            borderRadius: '0.5rem',
-                            boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
-                          }}
-                          formatter={(value: number) => [`${value}`, 'Balance']}
-                          labelFormatter={(label: string) => `Date: ${label}`}
-                        />
-                        <Legend />
-                        <Line 
-                          type="monotone" 
-                          dataKey="balance" 
-                          name="Balance (CZECHITOKEN)"
-                          stroke="#4F46E5" 
-                          strokeWidth={2}
-                          dot={false}
-                        />
-                      </LineChart>
-                    </ResponsiveContainer>
-                  </div>
-                </div>
-
-                {/* Monthly Transaction Volume */}
-                <div className="bg-white p-8 rounded-2xl shadow-xl border border-white/20">
-                  <h2 className="text-xl font-semibold mb-8 text-gray-800">Monthly Transaction Volume</h2>
-                  <div className="h-[300px]">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <BarChart data={monthlyChartData}>
-                        <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
-                        <XAxis dataKey="month" stroke="#6B7280" />
-                        <YAxis 
-                          stroke="#6B7280"
-                          tickFormatter={(value: number) => `${value}`}
-                          width={120}
-                        />
-                        <Tooltip 
-                          contentStyle={{ 
-                            backgroundColor: 'rgba(255, 255, 255, 0.9)',
-                            border: '1px solid #E5E7EB',
-                            borderRadius: '0.5rem',
-                            boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
-                          }}
-                          formatter={(value: number) => [`${value}`, value >= 0 ? 'Received' : 'Sent']}
-                        />
-                        <Legend />
-                        <Bar 
-                          dataKey="incoming" 
-                          name="Received"
-                          fill="#4F46E5"
-                          radius={[4, 4, 0, 0]}
-                        />
-                        <Bar 
-                          dataKey="outgoing" 
-                          name="Sent"
-                          fill="#10B981"
-                          radius={[4, 4, 0, 0]}
-                        />
-                      </BarChart>
-                    </ResponsiveContainer>
-                  </div>
-                </div>
-
-                {/* Transaction Type Distribution */}
-                <div className="bg-white p-8 rounded-2xl shadow-xl border border-white/20">
-                  <h2 className="text-xl font-semibold mb-8 text-gray-800">Transaction Type Distribution</h2>
-                  <div className="h-[300px]">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <PieChart>
-                        <Pie
-                          data={Object.entries(transactionTypes).map(([name, value]) => ({ name, value }))}
-                          cx="50%"
-                          cy="50%"
-                          labelLine={true}
-                          outerRadius={100}
-                          fill="#8884d8"
-                          dataKey="value"
-                          paddingAngle={0}
-                          label={({ name, value, percent }) => 
-                            `${name}: ${value} (${(percent * 100).toFixed(1)}%)`
-                          }
-                        >
-                          {Object.entries(transactionTypes).map((entry, index) => (
-                            <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                          ))}
-                        </Pie>
-                        <Tooltip 
-                          contentStyle={{ 
-                            backgroundColor: 'rgba(255, 255, 255, 0.9)',
-                            border: '1px solid #E5E7EB',
-                            borderRadius: '0.5rem',
-                            boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
-                          }}
-                        />
-                        <Legend />
-                      </PieChart>
-                    </ResponsiveContainer>
-                  </div>
+              {!historyStatus.complete && (
+                <div className="mb-8 flex items-center justify-between gap-4 rounded-xl border border-amber-200 bg-amber-50 px-6 py-4 text-amber-900 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-100 shadow-lg">
+                  <p className="text-sm">
+                    <span className="font-semibold">{t('history.partialTitle')} </span>
+                    {t('history.partial', { count: transactions.length, reason: incompleteReason })}
+                  </p>
+                  <button
+                    onClick={() => fetchData(activeProfileId ?? undefined)}
+                    className="shrink-0 rounded-lg bg-amber-600 px-4 py-2 text-sm font-medium text-white hover:bg-amber-700"
+                  >
+                    {t('history.retry')}
+                  </button>
                 </div>
+              )}
+              <AccountBalances accounts={accounts} selectedAccount={selectedAccount} onSelect={setSelectedAccount} />
+              <DateRangePicker value={dateRange} onChange={setDateRange} />
+              <LayoutEditor layout={layout} onChange={updateLayout} />
 
-                {/* Top Transaction Partners */}
-                <div className="bg-white p-8 rounded-2xl shadow-xl border border-white/20">
-                  <h2 className="text-xl font-semibold mb-8 text-gray-800">Top Transaction Partners</h2>
-                  <div className="h-[300px]">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <BarChart data={topPartnersData} layout="vertical">
-                        <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
-                        <XAxis 
-                          type="number"
-                          stroke="#6B7280"
-                          tickFormatter={(value: number) => `${value}`}
-                        />
-                        <YAxis 
-                          type="category"
-                          dataKey="name" 
-                          stroke="#6B7280"
-                          width={120}
-                          tick={{
-                            fontSize: 12,
-                            fill: '#4B5563'
-                          }}
-                        />
-                        <Tooltip 
-                          contentStyle={{ 
-                            backgroundColor: 'rgba(255, 255, 255, 0.9)',
-                            border: '1px solid #E5E7EB',
-                            borderRadius: '0.5rem',
-                            boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
-                          }}
-                          formatter={(value: number) => [`${value}`, '']}
-                        />
-                        <Legend />
-                        <Bar 
-                          dataKey="incoming" 
-                          name="Received"
-                          fill="#4F46E5"
-                          stackId="a"
-                          radius={[0, 4, 4, 0]}
-                        />
-                        <Bar 
-                          dataKey="outgoing" 
-                          name="Sent"
-                          fill="#10B981"
-                          stackId="a"
-                          radius={[0, 4, 4, 0]}
-                        />
-                      </BarChart>
-                    </ResponsiveContainer>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                {layout.filter(widget => widget.visible).map(widget => (
+                  <div key={widget.id} className={widget.size === 'full' ? 'md:col-span-2' : undefined}>
+                    {widgets[widget.id]}
                   </div>
-                </div>
+                ))}
               </div>
 
-              {/* Daily Transaction Count */}
-              <div className="bg-white p-8 rounded-2xl shadow-xl border border-white/20 mt-8">
-                <h2 className="text-xl font-semibold mb-8 text-gray-800">Daily Transaction Count</h2>
-                <div className="h-[300px]">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={dailyTransactionData}>
-                      <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
-                      <XAxis 
-                        dataKey="date" 
-                        stroke="#6B7280"
-                        angle={-45}
-                        textAnchor="end"
-                        height={80}
-                        tickMargin={25}
-                        interval="preserveStartEnd"
-                        minTickGap={50}
-                        tick={{
-                          fontSize: 12,
-                          fill: '#4B5563'
-                        }}
-                        tickFormatter={(value: string) => value.split('/')[1] + '.' + value.split('/')[0]}
-                      />
-                      <YAxis 
-                        stroke="#6B7280"
-                        width={50}
-                        tickFormatter={(value: number) => Math.floor(value).toString()}
-                      />
-                      <Tooltip 
-                        contentStyle={{ 
-                          backgroundColor: 'rgba(255, 255, 255, 0.9)',
-                          border: '1px solid #E5E7EB',
-                          borderRadius: '0.5rem',
-                          boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
-                        }}
-                        formatter={(value: number) => [`${value} transactions`, 'Count']}
-                        labelFormatter={(label: string) => `Date: ${label}`}
-                      />
-                      <Legend />
-                      <Bar 
-                        dataKey="count" 
-                        name="Number of Transactions"
-                        fill="#8B5CF6"
-                        radius={[4, 4, 0, 0]}
-                      />
-                    </BarChart>
-                  </ResponsiveContainer>
-                </div>
-              </div>
-
-              {/* Running Balance vs Transaction Volume */}
-              <div className="col-span-2 bg-white p-8 rounded-2xl shadow-xl border border-white/20 mt-8">
-                <h2 className="text-xl font-semibold mb-8 text-gray-800">Running Balance vs Transaction Volume</h2>
-                <div className="h-[400px]">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <ComposedChart
-                      data={runningBalanceData}
-                      margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
-                    >
-                      <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
-                      <XAxis 
-                        dataKey="date" 
-                        stroke="#6B7280"
-                        angle={-45}
-                        textAnchor="end"
-                        height={80}
-                        tickMargin={25}
-                        interval={0}
-                        minTickGap={10}
-                        tick={{
-                          fontSize: 12,
-                          fill: '#4B5563'
-                        }}
-                        tickFormatter={(value: string) => value.split('.')[0] + '.' + value.split('.')[1]}
-                        scale="point"
-                      />
-                      <YAxis 
-                        yAxisId="balance"
-                        stroke="#4F46E5"
-                        tickFormatter={(value: number) => `${value}`}
-                        width={120}
-                        domain={['auto', 'auto']}
-                        padding={{ top: 20, bottom: 20 }}
-                      />
-                      <YAxis 
-                        yAxisId="volume"
-                        orientation="right"
-                        stroke="#10B981"
-                        tickFormatter={(value: number) => `${value}`}
-                        width={120}
-                        domain={['dataMin', 'dataMax']}
-                      />
-                      <Tooltip 
-                        contentStyle={{ 
-                          backgroundColor: 'rgba(255, 255, 255, 0.9)',
-                          border: '1px solid #E5E7EB',
-                          borderRadius: '0.5rem',
-                          boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
-                        }}
-                        formatter={(value: number, name: string) => [
-                          `${value} CZECHITOKEN`,
-                          name === 'balance' ? 'Balance' : name
-                        ]}
-                        labelFormatter={(label: string) => `Date: ${label}`}
-                      />
-                      <Legend />
-                      <Line 
-                        yAxisId="balance"
-                        type="monotone" 
-                        dataKey="balance" 
-                        name="Running Balance"
-                        stroke="#4F46E5" 
-                        strokeWidth={2}
-                        dot={false}
-                      />
-                      <Bar
-                        yAxisId="volume"
-                        dataKey="outgoing"
-                        name="Sent"
-                        fill="#EF4444"
-                        radius={[4, 4, 0, 0]}
-                        opacity={0.75}
-                        barSize={20}
-                      />
-                      <Bar
-                        yAxisId="volume"
-                        dataKey="incoming"
-                        name="Received"
-                        fill="#10B981"
-                        radius={[4, 4, 0, 0]}
-                        opacity={0.75}
-                        barSize={20}
-                      />
-                      <Brush
-                        dataKey="date"
-                        height={30}
-                        stroke="#8884d8"
-                        startIndex={Math.max(0, runningBalanceData.length - 20)}
-                        endIndex={runningBalanceData.length - 1}
-                      />
-                    </ComposedChart>
-                  </ResponsiveContainer>
-                </div>
-              </div>
-
-              {/* Transaction Stats Table */}
-              <div className="mt-8">
-                <div className="bg-white p-8 rounded-2xl shadow-xl border border-white/20">
-                  <h2 className="text-xl font-semibold mb-8 text-gray-800">Transaction Statistics</h2>
-                  
-                  {/* Summary Stats */}
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-12">
-                    <div className="bg-gradient-to-br from-indigo-50 to-indigo-100 p-6 rounded-xl">
-                      <p className="text-sm text-indigo-600 font-medium">Total Transactions</p>
-                      <p className="text-2xl font-bold text-indigo-900">{transactionStats.totalTransactions}</p>
-                    </div>
-                    <div className="bg-gradient-to-br from-emerald-50 to-emerald-100 p-6 rounded-xl">
-                      <p className="text-sm text-emerald-600 font-medium">Total Volume</p>
-                      <p className="text-2xl font-bold text-emerald-900">{transactionStats.totalVolume} CZECHITOKEN</p>
-                    </div>
-                    <div className="bg-gradient-to-br from-amber-50 to-amber-100 p-6 rounded-xl">
-                      <p className="text-sm text-amber-600 font-medium">Average Amount</p>
-                      <p className="text-2xl font-bold text-amber-900">{transactionStats.averageAmount} CZECHITOKEN</p>
-                    </div>
-                  </div>
-
-                  {/* Transactions Table */}
-                  <div className="overflow-x-auto">
-                    <table className="min-w-full divide-y divide-gray-200">
-                      <thead className="bg-gray-50/50 backdrop-blur-sm sticky top-0">
-                        <tr>
-                          <th 
-                            scope="col" 
-                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100/50 transition-colors"
-                            onClick={() => handleSort('date')}
-                          >
-                            <div className="flex items-center space-x-1">
-                              <span>Date</span>
-                              {getSortIcon('date')}
-                            </div>
-                          </th>
-                          <th 
-                            scope="col" 
-                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100/50 transition-colors"
-                            onClick={() => handleSort('amount')}
-                          >
-                            <div className="flex items-center space-x-1">
-                              <span>Amount</span>
-                              {getSortIcon('amount')}
-                            </div>
-                          </th>
-                          <th 
-                            scope="col" 
-                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100/50 transition-colors"
-                            onClick={() => handleSort('from')}
-                          >
-                            <div className="flex items-center space-x-1">
-                              <span>From</span>
-                              {getSortIcon('from')}
-                            </div>
-                          </th>
-                          <th 
-                            scope="col" 
-                            className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100/50 transition-colors"
-                            onClick={() => handleSort('to')}
-                          >
-                            <div className="flex items-center space-x-1">
-                              <span>To</span>
-                              {getSortIcon('to')}
-                            </div>
-                          </th>
-                          <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Currency
-                          </th>
-                        </tr>
-                      </thead>
-                      <tbody className="bg-white/50 backdrop-blur-sm divide-y divide-gray-200">
-                        {sortedTransactions.map((tx) => (
-                          <tr key={tx.id} className="hover:bg-gray-50/50 transition-colors">
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                              {new Date(tx.createdAt).toLocaleString('en-US', {
-                                year: 'numeric',
-                                month: 'short',
-                                day: 'numeric',
-                                hour: '2-digit',
-                                minute: '2-digit',
-                                hour12: false
-                              })}
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm">
-                              <span className={`font-medium ${tx.to.user.id === currentUser?.id ? 'text-green-600' : 'text-red-600'}`}>
-                                {tx.to.user.id === currentUser?.id ? '+' : '-'}{Math.abs(tx.amount)} CZECHITOKEN
-                              </span>
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                              <div className="flex items-center">
-                                <span className="truncate max-w-[200px]" title={tx.from.user.name}>
-                                  {tx.from.user.name}
-                                </span>
-                                <span className="ml-2 text-xs text-gray-400">
-                                  ({tx.from.number})
-                                </span>
-                              </div>
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                              <div className="flex items-center">
-                                <span className="truncate max-w-[200px]" title={tx.to.user.name}>
-                                  {tx.to.user.name}
-                                </span>
-                                <span className="ml-2 text-xs text-gray-400">
-                                  ({tx.to.number})
-                                </span>
-                              </div>
-                            </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                              {tx.currency}
-                            </td>
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
-                </div>
-              </div>
+              {selectedTransaction && (
+                <TransactionPanel
+                  transaction={selectedTransaction}
+                  transactions={transactions}
+                  accounts={accounts}
+                  onSelect={setSelectedTransactionId}
+                  onClose={closeTransactionPanel}
+                />
+              )}
             </>
           )}
         </div>
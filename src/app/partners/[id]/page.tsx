@@ -0,0 +1,138 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { useState } from 'react';
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+import { CurrencyBreakdown } from '@/components/currency-breakdown';
+import { useLoadedDashboardData } from '@/components/dashboard-data-provider';
+import { DrillDownLayout } from '@/components/drill-down-layout';
+import { ExportMenu } from '@/components/export-menu';
+import { GranularitySelect } from '@/components/granularity-select';
+import { useI18n } from '@/components/i18n-provider';
+import { getCounterparty, getSignedAmount } from '@/lib/accounts';
+import { computeBalanceData, computeVolume, getPartnerTransactions } from '@/lib/analytics';
+import { computeCurrencyTotals } from '@/lib/currency';
+import { transactionsToRows } from '@/lib/export';
+import { PARTNERS_HREF } from '@/lib/routes';
+import { CHART_COLORS, CHART_TOOLTIP_STYLE } from '@/lib/theme';
+import type { Granularity } from '@/lib/time-buckets';
+
+export default function PartnerPage() {
+  const { t, format } = useI18n();
+  const { id } = useParams<{ id: string }>();
+  const partnerId = decodeURIComponent(id);
+  const { data, status } = useLoadedDashboardData();
+  const [granularity, setGranularity] = useState<Granularity>('month');
+  const [currency, setCurrency] = useState<string | null>(null);
+
+  const ownAccounts = new Set(data.accounts.map(account => account.number));
+  const context = { ownAccounts, scope: ownAccounts };
+  const partnerTransactions = getPartnerTransactions(data.transactions, partnerId, context)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const latest = partnerTransactions[0] ? getCounterparty(partnerTransactions[0], ownAccounts) : undefined;
+  const partnerAccounts = [...new Set(partnerTransactions.map(tx => getCounterparty(tx, ownAccounts).number))];
+
+  // The flow chart shows one currency at a time, the one used most by default
+  const currencyTotals = computeCurrencyTotals(partnerTransactions, context);
+  const chartCurrency = currency ?? [...currencyTotals].sort((a, b) => b.count - a.count)[0]?.currency;
+  const chartTransactions = partnerTransactions.filter(tx => tx.currency === chartCurrency);
+  const balance = new Map(computeBalanceData(chartTransactions, context, granularity).map(point => [point.period, point.balance]));
+  const flowData = computeVolume(chartTransactions, context, granularity).map(point => ({ ...point, balance: balance.get(point.period) ?? 0 }));
+
+  return (
+    <DrillDownLayout
+      title={latest?.user.name ?? t('partner.unknown')}
+      subtitle={partnerAccounts.length > 0 ? t('partner.accounts', { accounts: partnerAccounts.join(', ') }) : undefined}
+      backHref={PARTNERS_HREF}
+      backLabel={t('partners.all')}
+      status={status}
+    >
+      {partnerTransactions.length === 0 ? (
+        <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20 text-gray-700">
+          {t('partner.empty')}
+        </div>
+      ) : (
+        <>
+          <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20 mb-8">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+              <h2 className="text-xl font-semibold text-gray-800">{t('partner.flows')}</h2>
+              <div className="flex flex-wrap items-center gap-2">
+                {currencyTotals.length > 1 && (
+                  <select
+                    aria-label={t('common.currency')}
+                    value={chartCurrency}
+                    onChange={(e) => setCurrency(e.target.value)}
+                    className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    {currencyTotals.map(entry => (
+                      <option key={entry.currency} value={entry.currency}>{entry.currency}</option>
+                    ))}
+                  </select>
+                )}
+                <GranularitySelect value={granularity} onChange={setGranularity} />
+                <ExportMenu dataset="partner-flows" getRows={() => flowData} />
+              </div>
+            </div>
+            <div className="h-[350px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={flowData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
+                  <XAxis dataKey="period" stroke={CHART_COLORS.axis} tickFormatter={(value: string) => format.bucket(value, granularity)} />
+                  <YAxis stroke={CHART_COLORS.axis} width={100} tickFormatter={format.number} />
+                  <Tooltip
+                    contentStyle={CHART_TOOLTIP_STYLE}
+                    formatter={(value: number) => format.amount(value, chartCurrency ?? '')}
+                    labelFormatter={(label: string) => format.bucket(label, granularity)}
+                  />
+                  <Legend />
+                  <Bar dataKey="incoming" name={t('common.received')} fill={CHART_COLORS.incoming} radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="outgoing" name={t('common.sent')} fill={CHART_COLORS.outgoing} radius={[4, 4, 0, 0]} />
+                  <Line type="monotone" dataKey="balance" name={t('partner.netBalance')} stroke={CHART_COLORS.balance} strokeWidth={2} dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+              <h2 className="text-xl font-semibold text-gray-800">{t('partner.history')}</h2>
+              <ExportMenu dataset="partner-transactions" getRows={() => transactionsToRows(partnerTransactions, ownAccounts, ownAccounts)} />
+            </div>
+            <CurrencyBreakdown totals={currencyTotals} />
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-6 font-medium">{t('common.date')}</th>
+                    <th className="py-2 pr-6 font-medium text-right">{t('common.amount')}</th>
+                    <th className="py-2 pr-6 font-medium">{t('partner.yourAccount')}</th>
+                    <th className="py-2 font-medium">{t('partner.theirAccount')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {partnerTransactions.map(tx => {
+                    const signedAmount = getSignedAmount(tx, ownAccounts);
+                    const theirs = getCounterparty(tx, ownAccounts);
+                    return (
+                      <tr key={tx.id}>
+                        <td className="py-2 pr-6 text-gray-900">
+                          {format.dateTime(tx.createdAt)}
+                        </td>
+                        <td className={`py-2 pr-6 text-right font-medium ${signedAmount > 0 ? 'text-incoming' : 'text-outgoing'}`}>
+                          {format.signedAmount(signedAmount, tx.currency)}
+                        </td>
+                        <td className="py-2 pr-6 text-gray-500">{theirs === tx.from ? tx.to.number : tx.from.number}</td>
+                        <td className="py-2 text-gray-500">{theirs.number}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </DrillDownLayout>
+  );
+}
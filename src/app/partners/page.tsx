@@ -0,0 +1,75 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+
+import { useLoadedDashboardData } from '@/components/dashboard-data-provider';
+import { DrillDownLayout } from '@/components/drill-down-layout';
+import { ExportMenu } from '@/components/export-menu';
+import { useI18n } from '@/components/i18n-provider';
+import { computeTopPartners } from '@/lib/analytics';
+import { partnerHref } from '@/lib/routes';
+
+export default function PartnersPage() {
+  const { t, format } = useI18n();
+  const { data, status } = useLoadedDashboardData();
+  const [search, setSearch] = useState('');
+
+  const ownAccounts = new Set(data.accounts.map(account => account.number));
+  const partners = computeTopPartners(data.transactions, { ownAccounts, scope: ownAccounts }, Infinity);
+  const query = search.trim().toLowerCase();
+  const visible = query
+    ? partners.filter(partner => partner.name.toLowerCase().includes(query) || partner.accounts.some(account => account.includes(query)))
+    : partners;
+
+  return (
+    <DrillDownLayout title={t('partners.title')} subtitle={t('partners.subtitle', { count: partners.length })} status={status}>
+      <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <input
+            aria-label={t('partners.search')}
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('partners.searchPlaceholder')}
+            className="w-64 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <ExportMenu
+            dataset="partners"
+            getRows={() => visible.map(({ accounts, ...partner }) => ({ ...partner, accounts: accounts.join(' ') }))}
+          />
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-6 font-medium">{t('common.partner')}</th>
+                <th className="py-2 pr-6 font-medium">{t('partners.accounts')}</th>
+                <th className="py-2 pr-6 font-medium text-right">{t('common.transactions')}</th>
+                <th className="py-2 pr-6 font-medium text-right">{t('common.received')}</th>
+                <th className="py-2 font-medium text-right">{t('common.sent')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.length === 0 && (
+                <tr><td colSpan={5} className="py-6 text-center text-gray-500">{t('partners.empty')}</td></tr>
+              )}
+              {visible.map(partner => (
+                <tr key={partner.id}>
+                  <td className="py-2 pr-6">
+                    <Link href={partnerHref(partner.id)} className="font-medium text-gray-900 hover:text-indigo-600 hover:underline">
+                      {partner.name}
+                    </Link>
+                  </td>
+                  <td className="py-2 pr-6 text-gray-500">{partner.accounts.join(', ')}</td>
+                  <td className="py-2 pr-6 text-right text-gray-700">{format.number(partner.count)}</td>
+                  <td className="py-2 pr-6 text-right text-incoming">+{format.number(partner.incoming)}</td>
+                  <td className="py-2 text-right text-outgoing">-{format.number(partner.outgoing)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </DrillDownLayout>
+  );
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+
+import { useLoadedDashboardData } from '@/components/dashboard-data-provider';
+import { DrillDownLayout } from '@/components/drill-down-layout';
+import { useI18n } from '@/components/i18n-provider';
+import { TransactionDetail } from '@/components/transaction-detail';
+
+export default function TransactionPage() {
+  const { t } = useI18n();
+  const { id } = useParams<{ id: string }>();
+  const transactionId = decodeURIComponent(id);
+  const { data, status } = useLoadedDashboardData();
+  const transaction = data.transactions.find(tx => tx.id === transactionId);
+
+  return (
+    <DrillDownLayout title={t('transaction.title')} subtitle={transactionId} status={status}>
+      <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20">
+        {transaction ? (
+          <TransactionDetail transaction={transaction} transactions={data.transactions} accounts={data.accounts} />
+        ) : (
+          <p className="text-gray-700">{t('transaction.notLoaded')}</p>
+        )}
+      </div>
+    </DrillDownLayout>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useI18n } from '@/components/i18n-provider';
+import { ALL_ACCOUNTS } from '@/lib/accounts';
+import type { BankAccount } from '@/lib/czechibank';
+import { sumBalancesByCurrency } from '@/lib/currency';
+
+interface AccountBalancesProps {
+  accounts: BankAccount[];
+  selectedAccount: string;
+  onSelect: (accountNumber: string) => void;
+}
+
+export function AccountBalances({ accounts, selectedAccount, onSelect }: AccountBalancesProps) {
+  const { t, format } = useI18n();
+  // Balances in different currencies can't be added up, so the total is per currency
+  const totals = sumBalancesByCurrency(accounts);
+
+  const cardClassName = (selected: boolean) =>
+    `text-left p-6 rounded-2xl shadow-xl border transition-all ${
+      selected ? 'bg-card border-indigo-500 ring-2 ring-indigo-500' : 'bg-card/90 border-white/20 hover:bg-card'
+    }`;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+      <button onClick={() => onSelect(ALL_ACCOUNTS)} className={cardClassName(selectedAccount === ALL_ACCOUNTS)}>
+        <p className="text-sm text-indigo-600 font-medium">{t('accounts.all')}</p>
+        {totals.map(({ currency, balance }) => (
+          <p key={currency} className={`font-bold text-gray-900 ${totals.length > 1 ? 'text-lg' : 'text-2xl'}`}>{format.amount(balance, currency)}</p>
+        ))}
+        <p className="text-xs text-gray-500 mt-1">{t('common.accountCount', { count: accounts.length })}</p>
+      </button>
+      {accounts.map(account => (
+        <button key={account.id} onClick={() => onSelect(account.number)} className={cardClassName(selectedAccount === account.number)}>
+          <p className="text-sm text-gray-500 font-medium truncate" title={account.number}>{account.number}</p>
+          <p className="text-2xl font-bold text-gray-900">{format.amount(account.balance, account.currency)}</p>
+          <p className="text-xs text-gray-500 mt-1 truncate">{account.user.name}</p>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import type { Translate } from '@/lib/i18n';
+import { CHART_COLORS } from '@/lib/theme';
+
+interface AnomalyDotProps {
+  key?: string;
+  cx?: number;
+  cy?: number;
+  payload?: { period: string };
+}
+
+// `dot` renderer for balance lines: a marker in the anomaly color on points whose period contains
+// unusual transactions, nothing elsewhere. Recharts calls it as a plain function and
+// passes the element key along with the props.
+export function renderAnomalyDot(counts: Map<string, number>, t: Translate) {
+  return ({ key, cx, cy, payload }: AnomalyDotProps) => {
+    const count = payload ? counts.get(payload.period) ?? 0 : 0;
+    if (!count || cx === undefined || cy === undefined) return <g key={key} />;
+    return (
+      <circle key={key} cx={cx} cy={cy} r={5} fill={CHART_COLORS.anomaly} stroke={CHART_COLORS.surface} strokeWidth={2}>
+        <title>{t('anomalies.dot', { count })}</title>
+      </circle>
+    );
+  };
+}
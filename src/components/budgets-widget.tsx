@@ -0,0 +1,203 @@
+'use client';
+
+import { ChevronLeft, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+
+import { useI18n } from '@/components/i18n-provider';
+import type { PartnerVolume } from '@/lib/analytics';
+import type { Budget, BudgetStatus, BudgetTarget } from '@/lib/budgets';
+import { nextBucketKey } from '@/lib/time-buckets';
+
+interface BudgetsWidgetProps {
+  statuses: BudgetStatus[];
+  onBudgetsChange: (budgets: Budget[]) => void;
+  // `YYYY-MM`
+  month: string;
+  currentMonth: string;
+  onMonthChange: (month: string) => void;
+  categoryOptions: string[];
+  partnerOptions: PartnerVolume[];
+  currencies: string[];
+  defaultCurrency: string;
+}
+
+const inputClassName = 'px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+const STATE_STYLES: Record<BudgetStatus['state'], { bar: string; text: string }> = {
+  ok: { bar: 'bg-emerald-500', text: 'text-emerald-700' },
+  atRisk: { bar: 'bg-amber-500', text: 'text-amber-700' },
+  exceeded: { bar: 'bg-red-500', text: 'text-red-700' },
+};
+
+const previousMonth = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return monthNumber === 1 ? `${year - 1}-12` : `${year}-${String(monthNumber - 1).padStart(2, '0')}`;
+};
+
+export function BudgetsWidget({
+  statuses,
+  onBudgetsChange,
+  month,
+  currentMonth,
+  onMonthChange,
+  categoryOptions,
+  partnerOptions,
+  currencies,
+  defaultCurrency,
+}: BudgetsWidgetProps) {
+  const { t, format } = useI18n();
+  const [target, setTarget] = useState<BudgetTarget>('category');
+  const [name, setName] = useState('');
+  const [partnerId, setPartnerId] = useState('');
+  const [limit, setLimit] = useState('');
+  const [currency, setCurrency] = useState('');
+
+  const budgets = statuses.map(status => status.budget);
+  const attention = statuses.filter(status => status.state !== 'ok').length;
+
+  const partner = partnerOptions.find(option => option.id === partnerId);
+  const canAdd = (target === 'category' ? Boolean(name.trim()) : Boolean(partner)) && Number(limit) > 0;
+  // Partners who share a name are told apart by their account
+  const partnerLabel = (option: PartnerVolume) =>
+    partnerOptions.some(other => other.id !== option.id && other.name === option.name) ? `${option.name} (${option.accounts[0]})` : option.name;
+
+  const addBudget = () => {
+    if (!canAdd) return;
+    const id = `budget-${Date.now().toString(36)}`;
+    const budget: Budget = target === 'partner' && partner
+      ? { id, target, name: partner.name, partnerId: partner.id, limit: Number(limit), currency: currency || defaultCurrency }
+      : { id, target: 'category', name: name.trim(), limit: Number(limit), currency: currency || defaultCurrency };
+    onBudgetsChange([...budgets, budget]);
+    setName('');
+    setPartnerId('');
+    setLimit('');
+  };
+
+  return (
+    <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">{t('budgets.title')}</h2>
+          {attention > 0 && (
+            <p className="text-sm text-red-600">{t('budgets.attention', { count: attention })}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <button aria-label={t('budgets.previousMonth')} onClick={() => onMonthChange(previousMonth(month))} className="p-1.5 rounded-lg hover:bg-gray-100">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="w-24 text-center font-medium">{format.bucket(month, 'month')}</span>
+          <button
+            aria-label={t('budgets.nextMonth')}
+            onClick={() => onMonthChange(nextBucketKey(month, 'month'))}
+            disabled={month >= currentMonth}
+            className="p-1.5 rounded-lg hover:bg-gray-100 disabled:opacity-30"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {statuses.length === 0 && (
+        <p className="text-sm text-gray-500 mb-6">{t('budgets.empty')}</p>
+      )}
+      <div className="space-y-4 mb-6">
+        {statuses.map(status => {
+          const style = STATE_STYLES[status.state];
+          const { budget } = status;
+          const label = budget.target === 'category' ? format.category(budget.name) : budget.name;
+          return (
+            <div key={budget.id} className={`rounded-xl p-4 ${status.state === 'ok' ? 'bg-gray-50' : status.state === 'atRisk' ? 'bg-amber-50' : 'bg-red-50'}`}>
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-2 text-sm">
+                <span className="font-medium text-gray-900">
+                  {label}
+                  <span className="ml-2 text-xs font-normal text-gray-500">{t(budget.target === 'category' ? 'common.category' : 'common.partner')}</span>
+                </span>
+                <span className="flex items-center gap-3">
+                  <span className={`text-xs font-medium ${style.text}`}>{t(`budgets.${status.state}`)}</span>
+                  <button
+                    aria-label={t('budgets.remove', { name: label })}
+                    onClick={() => onBudgetsChange(budgets.filter(other => other.id !== budget.id))}
+                    className="p-1 rounded-lg text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </span>
+              </div>
+              <div className="relative h-2.5 rounded-full bg-gray-200 overflow-hidden">
+                <div className={`absolute inset-y-0 left-0 ${style.bar}`} style={{ width: `${Math.min(100, (status.spent / budget.limit) * 100)}%` }} />
+                {status.projected > status.spent && (
+                  <div
+                    className="absolute inset-y-0 border-r-2 border-dashed border-gray-500"
+                    style={{ width: `${Math.min(100, (status.projected / budget.limit) * 100)}%` }}
+                    title={t('budgets.projected', { amount: format.amount(status.projected, budget.currency) })}
+                  />
+                )}
+              </div>
+              <div className="flex flex-wrap justify-between gap-2 mt-2 text-xs text-gray-600">
+                <span>{t('budgets.spent', { spent: status.spent, limit: format.amount(budget.limit, budget.currency) })}</span>
+                <span>
+                  {status.remaining >= 0 ? t('budgets.left', { amount: status.remaining }) : t('budgets.over', { amount: -status.remaining })}
+                  {month === currentMonth && t('budgets.projectedSuffix', { amount: status.projected })}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select aria-label={t('budgets.for')} value={target} onChange={(e) => setTarget(e.target.value as BudgetTarget)} className={inputClassName}>
+          <option value="category">{t('common.category')}</option>
+          <option value="partner">{t('common.partner')}</option>
+        </select>
+        {target === 'category' ? (
+          <>
+            <input
+              aria-label={t('common.category')}
+              list="budget-category-options"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('common.category')}
+              className={`w-48 ${inputClassName}`}
+            />
+            <datalist id="budget-category-options">
+              {categoryOptions.map(option => (
+                <option key={option} value={option} label={format.category(option)} />
+              ))}
+            </datalist>
+          </>
+        ) : (
+          <select aria-label={t('common.partner')} value={partnerId} onChange={(e) => setPartnerId(e.target.value)} className={`w-48 ${inputClassName}`}>
+            <option value="">{t('budgets.partnerName')}</option>
+            {partnerOptions.map(option => (
+              <option key={option.id} value={option.id}>{partnerLabel(option)}</option>
+            ))}
+          </select>
+        )}
+        <input
+          aria-label={t('budgets.monthlyLimit')}
+          type="number"
+          min={0}
+          value={limit}
+          onChange={(e) => setLimit(e.target.value)}
+          placeholder={t('budgets.monthlyLimit')}
+          className={`w-36 ${inputClassName}`}
+        />
+        <select aria-label={t('common.currency')} value={currency || defaultCurrency} onChange={(e) => setCurrency(e.target.value)} className={inputClassName}>
+          {[...new Set([defaultCurrency, ...currencies])].map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <button
+          onClick={addBudget}
+          disabled={!canAdd}
+          className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-indigo-600 hover:bg-indigo-50 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          {t('budgets.add')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { ArrowUp, Plus, Trash2, X } from 'lucide-react';
+import { useState } from 'react';
+
+import { useI18n } from '@/components/i18n-provider';
+import type { TransactionDirection } from '@/lib/accounts';
+import type { CategoryRule, CategorySettings } from '@/lib/categories';
+
+interface CategoryRulesEditorProps {
+  settings: CategorySettings;
+  onChange: (settings: CategorySettings) => void;
+}
+
+const inputClassName = 'px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+const parseAmount = (value: string) => (value === '' || Number.isNaN(Number(value)) ? undefined : Number(value));
+
+export function CategoryRulesEditor({ settings, onChange }: CategoryRulesEditorProps) {
+  const { t, format } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [newCategory, setNewCategory] = useState('');
+  const overrideCount = Object.keys(settings.overrides).length;
+
+  const updateRule = (id: string, changes: Partial<CategoryRule>) =>
+    onChange({ ...settings, rules: settings.rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)) });
+
+  const moveUp = (index: number) => {
+    const rules = [...settings.rules];
+    [rules[index - 1], rules[index]] = [rules[index], rules[index - 1]];
+    onChange({ ...settings, rules });
+  };
+
+  const addCategory = () => {
+    const category = newCategory.trim();
+    if (category && !settings.categories.includes(category)) {
+      onChange({ ...settings, categories: [...settings.categories, category] });
+    }
+    setNewCategory('');
+  };
+
+  return (
+    <div className="bg-card/90 p-4 rounded-2xl shadow-xl border border-white/20">
+      <div className="flex flex-wrap items-center gap-4">
+        <span className="text-sm font-medium text-gray-700">{t('categories.title')}</span>
+        <span className="text-sm text-gray-500">
+          {t('categories.summary', { rules: t('categories.ruleCount', { count: settings.rules.length }), overrides: overrideCount })}
+        </span>
+        <button
+          onClick={() => setOpen(!open)}
+          className="px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          {t(open ? 'categories.hideRules' : 'categories.editRules')}
+        </button>
+        {open && overrideCount > 0 && (
+          <button
+            onClick={() => onChange({ ...settings, overrides: {} })}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium text-indigo-600 hover:bg-indigo-50"
+          >
+            {t('categories.clearManual')}
+          </button>
+        )}
+      </div>
+
+      {open && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {settings.categories.map(category => (
+              <span key={category} className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full bg-indigo-50 text-sm text-indigo-700">
+                {format.category(category)}
+                <button
+                  aria-label={t('categories.remove', { category: format.category(category) })}
+                  onClick={() => onChange({ ...settings, categories: settings.categories.filter(other => other !== category) })}
+                  className="text-indigo-400 hover:text-indigo-700"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            ))}
+            <input
+              aria-label={t('categories.new')}
+              value={newCategory}
+              onChange={(e) => setNewCategory(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addCategory()}
+              placeholder={t('categories.new')}
+              className={`w-36 ${inputClassName}`}
+            />
+            <button aria-label={t('common.add')} onClick={addCategory} disabled={!newCategory.trim()} className="p-1.5 rounded-lg text-indigo-600 hover:bg-indigo-50 disabled:opacity-50">
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+
+          <p className="text-xs text-gray-500">{t('categories.help')}</p>
+          {settings.rules.map((rule, index) => (
+            <div key={rule.id} className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+              <select
+                aria-label={t('common.category')}
+                value={rule.category}
+                onChange={(e) => updateRule(rule.id, { category: e.target.value })}
+                className={inputClassName}
+              >
+                {[...new Set([...settings.categories, rule.category])].map(category => (
+                  <option key={category} value={category}>{format.category(category)}</option>
+                ))}
+              </select>
+              <span>{t('categories.when')}</span>
+              <input
+                aria-label={t('categories.partnerName')}
+                value={rule.partnerName ?? ''}
+                onChange={(e) => updateRule(rule.id, { partnerName: e.target.value || undefined })}
+                placeholder={t('categories.partnerName')}
+                className={`w-44 ${inputClassName}`}
+              />
+              <input
+                aria-label={t('categories.partnerAccount')}
+                value={rule.partnerAccount ?? ''}
+                onChange={(e) => updateRule(rule.id, { partnerAccount: e.target.value || undefined })}
+                placeholder={t('categories.partnerAccount')}
+                className={`w-40 ${inputClassName}`}
+              />
+              <input
+                aria-label={t('categories.minAmount')}
+                type="number"
+                min={0}
+                value={rule.minAmount ?? ''}
+                onChange={(e) => updateRule(rule.id, { minAmount: parseAmount(e.target.value) })}
+                placeholder={t('categories.min')}
+                className={`w-24 ${inputClassName}`}
+              />
+              <input
+                aria-label={t('categories.maxAmount')}
+                type="number"
+                min={0}
+                value={rule.maxAmount ?? ''}
+                onChange={(e) => updateRule(rule.id, { maxAmount: parseAmount(e.target.value) })}
+                placeholder={t('categories.max')}
+                className={`w-24 ${inputClassName}`}
+              />
+              <select
+                aria-label={t('categories.direction')}
+                value={rule.direction ?? ''}
+                onChange={(e) => updateRule(rule.id, { direction: (e.target.value || undefined) as TransactionDirection | undefined })}
+                className={inputClassName}
+              >
+                <option value="">{t('direction.any')}</option>
+                <option value="incoming">{t('direction.incoming')}</option>
+                <option value="outgoing">{t('direction.outgoing')}</option>
+                <option value="internal">{t('direction.internal')}</option>
+              </select>
+              <button
+                aria-label={t('categories.moveUp')}
+                onClick={() => moveUp(index)}
+                disabled={index === 0}
+                className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100 disabled:opacity-30"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                aria-label={t('categories.removeRule')}
+                onClick={() => onChange({ ...settings, rules: settings.rules.filter(other => other.id !== rule.id) })}
+                className="p-1.5 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => onChange({
+              ...settings,
+              rules: [...settings.rules, { id: `rule-${Date.now().toString(36)}`, category: settings.categories[0] ?? 'Other' }],
+            })}
+            className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-indigo-600 hover:bg-indigo-50"
+          >
+            <Plus className="w-4 h-4" />
+            {t('categories.addRule')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
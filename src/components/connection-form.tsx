@@ -0,0 +1,204 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+
+import { useI18n } from '@/components/i18n-provider';
+import { MOCK_BASE_URL } from '@/lib/czechibank';
+import { findEnvironment, normalizeBaseUrl, type ApiEnvironment } from '@/lib/environments';
+
+export interface Connection {
+  baseUrl: string;
+  apiKey: string;
+  label: string;
+}
+
+interface ConnectionFormProps {
+  environments: ApiEnvironment[];
+  onEnvironmentsChange: (environments: ApiEnvironment[]) => void;
+  // Preselected environment, e.g. from a shared link. Only environments this browser
+  // already knows are selected: a link must not lead anyone into sending their key to a
+  // host its author chose.
+  initialBaseUrl?: string;
+  submitLabel: string;
+  busy: boolean;
+  // Resolves to true when the profile was saved; the key field is cleared then.
+  onSubmit: (connection: Connection) => Promise<boolean>;
+}
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+const inputClassName = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+export function ConnectionForm({ environments, onEnvironmentsChange, initialBaseUrl, submitLabel, busy, onSubmit }: ConnectionFormProps) {
+  const { t } = useI18n();
+  const initialEnvironment = initialBaseUrl ? findEnvironment(environments, initialBaseUrl) : undefined;
+  const [baseUrl, setBaseUrl] = useState(initialEnvironment?.baseUrl ?? '');
+  const [apiKey, setApiKey] = useState('');
+  const [label, setLabel] = useState('');
+  const [managing, setManaging] = useState(false);
+  const [newEnvironmentLabel, setNewEnvironmentLabel] = useState('');
+  const [newEnvironmentUrl, setNewEnvironmentUrl] = useState('');
+  const [environmentError, setEnvironmentError] = useState<string | null>(null);
+
+  const environment = findEnvironment(environments, baseUrl);
+  const unknownLinkedHost = initialBaseUrl && !initialEnvironment ? hostOf(initialBaseUrl) : null;
+  const customEnvironments = environments.filter(entry => entry.custom);
+
+  const addEnvironment = () => {
+    const url = normalizeBaseUrl(newEnvironmentUrl);
+    if (!url) {
+      setEnvironmentError(t('connection.invalidUrl'));
+      return;
+    }
+    if (findEnvironment(environments, url)) {
+      setEnvironmentError(t('connection.duplicateUrl'));
+      return;
+    }
+    onEnvironmentsChange([
+      ...customEnvironments,
+      { id: `custom-${Date.now().toString(36)}`, label: newEnvironmentLabel.trim() || new URL(url).host, baseUrl: url, custom: true },
+    ]);
+    setBaseUrl(url);
+    setNewEnvironmentLabel('');
+    setNewEnvironmentUrl('');
+    setEnvironmentError(null);
+  };
+
+  const submit = async () => {
+    const saved = await onSubmit({ baseUrl, apiKey, label: label.trim() || environment?.label || baseUrl });
+    if (saved) {
+      setApiKey('');
+      setLabel('');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label htmlFor="baseUrl" className="block text-sm font-medium text-gray-700">
+            {t('connection.baseUrl')}
+          </label>
+          <button onClick={() => setManaging(!managing)} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">
+            {t(managing ? 'connection.done' : 'connection.customEnvironments')}
+          </button>
+        </div>
+        <select
+          id="baseUrl"
+          value={baseUrl}
+          onChange={(e) => setBaseUrl(e.target.value)}
+          className={inputClassName}
+        >
+          <option value="">{t('connection.selectProvider')}</option>
+          {environments.map(entry => (
+            <option key={entry.id} value={entry.baseUrl}>
+              {entry.label} ({entry.baseUrl})
+            </option>
+          ))}
+        </select>
+        {unknownLinkedHost && !baseUrl && (
+          <p className="mt-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+            {t('connection.unknownLinkedEnvironment', { host: unknownLinkedHost })}
+          </p>
+        )}
+      </div>
+
+      {managing && (
+        <div className="rounded-lg border border-gray-200 bg-gray-50 p-4 space-y-3">
+          {customEnvironments.length === 0 && (
+            <p className="text-xs text-gray-500">{t('connection.noCustom')}</p>
+          )}
+          {customEnvironments.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate text-gray-700" title={entry.baseUrl}>
+                <span className="font-medium">{entry.label}</span> <span className="text-gray-500">{entry.baseUrl}</span>
+              </span>
+              <button
+                aria-label={t('connection.remove', { name: entry.label })}
+                onClick={() => {
+                  onEnvironmentsChange(customEnvironments.filter(other => other.id !== entry.id));
+                  if (baseUrl === entry.baseUrl) setBaseUrl('');
+                }}
+                className="p-1.5 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_2fr_auto] gap-2">
+            <input
+              aria-label={t('connection.environmentName')}
+              value={newEnvironmentLabel}
+              onChange={(e) => setNewEnvironmentLabel(e.target.value)}
+              placeholder={t('connection.name')}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              aria-label={t('connection.environmentUrl')}
+              value={newEnvironmentUrl}
+              onChange={(e) => setNewEnvironmentUrl(e.target.value)}
+              placeholder="http://localhost:4000/api/v1"
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+            />
+            <button
+              onClick={addEnvironment}
+              disabled={!newEnvironmentUrl.trim()}
+              className="inline-flex items-center justify-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-indigo-600 hover:bg-indigo-50 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              {t('common.add')}
+            </button>
+          </div>
+          {environmentError && <p className="text-xs text-red-600">{environmentError}</p>}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="token" className="block text-sm font-medium text-gray-700 mb-1">
+          {t('connection.apiKey')}
+        </label>
+        <input
+          type="password"
+          id="token"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          className={inputClassName}
+          placeholder={t('connection.apiKeyPlaceholder')}
+          autoComplete="off"
+        />
+        {baseUrl === MOCK_BASE_URL && (
+          <p className="text-xs text-gray-500 mt-1">
+            {t('connection.mockHelp')} <code>seed=7;partners=12;months=24;currencies=CZECHITOKEN,EUR</code>{' '}
+            {t('connection.mockFailures')} <code>error=401</code>, <code>failPage=3</code>, <code>delay=2000</code>.
+          </p>
+        )}
+      </div>
+      <div>
+        <label htmlFor="profileLabel" className="block text-sm font-medium text-gray-700 mb-1">
+          {t('connection.profileName')} <span className="font-normal text-gray-500">{t('connection.optional')}</span>
+        </label>
+        <input
+          id="profileLabel"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          className={inputClassName}
+          placeholder={environment?.label ?? t('connection.profilePlaceholder')}
+        />
+      </div>
+      <button
+        onClick={submit}
+        disabled={busy || !baseUrl || !apiKey}
+        className="w-full bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {busy ? t('common.loading') : submitLabel}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useI18n } from '@/components/i18n-provider';
+import type { CurrencyTotals } from '@/lib/currency';
+
+interface CurrencyBreakdownProps {
+  totals: CurrencyTotals[];
+}
+
+export function CurrencyBreakdown({ totals }: CurrencyBreakdownProps) {
+  const { t, format } = useI18n();
+
+  return (
+    <div className="mb-12">
+      <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-3">{t('currency.byCurrency')}</h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-2 pr-6 font-medium">{t('common.currency')}</th>
+              <th className="py-2 pr-6 font-medium text-right">{t('common.transactions')}</th>
+              <th className="py-2 pr-6 font-medium text-right">{t('common.received')}</th>
+              <th className="py-2 pr-6 font-medium text-right">{t('common.sent')}</th>
+              <th className="py-2 font-medium text-right">{t('common.net')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {totals.map(entry => (
+              <tr key={entry.currency}>
+                <td className="py-2 pr-6 font-medium text-gray-900">{entry.currency}</td>
+                <td className="py-2 pr-6 text-right text-gray-700">{format.number(entry.count)}</td>
+                <td className="py-2 pr-6 text-right text-incoming">{format.signedAmount(entry.incoming)}</td>
+                <td className="py-2 pr-6 text-right text-outgoing">{format.signedAmount(entry.outgoing)}</td>
+                <td className={`py-2 text-right font-medium ${entry.net >= 0 ? 'text-incoming' : 'text-outgoing'}`}>
+                  {format.signedAmount(entry.net)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+
+import { useI18n } from '@/components/i18n-provider';
+import { toDayKey } from '@/lib/analytics';
+import { PIVOT_CURRENCY, type CurrencyView, type ExchangeRate } from '@/lib/currency';
+
+interface CurrencySettingsProps {
+  // Currencies that occur in the loaded accounts and transactions.
+  currencies: string[];
+  view: CurrencyView;
+  onViewChange: (view: CurrencyView) => void;
+  rates: ExchangeRate[];
+  onRatesChange: (rates: ExchangeRate[]) => void;
+  missingRates: string[];
+}
+
+const inputClassName = 'px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+export function CurrencySettings({ currencies, view, onViewChange, rates, onRatesChange, missingRates }: CurrencySettingsProps) {
+  const { t } = useI18n();
+  const [editing, setEditing] = useState(false);
+  const reportingCurrencies = [...new Set([PIVOT_CURRENCY, ...currencies, ...rates.map(entry => entry.currency)])].sort();
+
+  const updateRate = (index: number, changes: Partial<ExchangeRate>) =>
+    onRatesChange(rates.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+
+  return (
+    <div className="bg-card/90 p-4 rounded-2xl shadow-xl border border-white/20">
+      <div className="flex flex-wrap items-center gap-4">
+        <label htmlFor="currency-view" className="text-sm font-medium text-gray-700">{t('currency.show')}</label>
+        <select
+          id="currency-view"
+          value={`${view.mode}:${view.currency}`}
+          onChange={(e) => {
+            const [mode, currency] = e.target.value.split(':');
+            onViewChange({ mode: mode as CurrencyView['mode'], currency });
+          }}
+          className={inputClassName}
+        >
+          <optgroup label={t('currency.native')}>
+            {currencies.map(currency => (
+              <option key={currency} value={`native:${currency}`}>{t('currency.only', { currency })}</option>
+            ))}
+          </optgroup>
+          <optgroup label={t('currency.converted')}>
+            {reportingCurrencies.map(currency => (
+              <option key={currency} value={`converted:${currency}`}>{t('currency.allIn', { currency })}</option>
+            ))}
+          </optgroup>
+        </select>
+        <button
+          onClick={() => setEditing(!editing)}
+          className="px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          {editing ? t('currency.hideRates') : t('currency.rates', { count: rates.length })}
+        </button>
+        {view.mode === 'converted' && missingRates.length > 0 && (
+          <span className="text-sm text-amber-700">
+            {t('currency.missingRates', { currencies: missingRates.join(', ') })}
+          </span>
+        )}
+      </div>
+
+      {editing && (
+        <div className="mt-4 space-y-2">
+          <p className="text-xs text-gray-500">{t('currency.ratesHelp', { pivot: PIVOT_CURRENCY })}</p>
+          {rates.map((entry, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+              <span>1</span>
+              <input
+                aria-label={t('common.currency')}
+                value={entry.currency}
+                onChange={(e) => updateRate(index, { currency: e.target.value.trim().toUpperCase() })}
+                className={`w-32 ${inputClassName}`}
+              />
+              <span>=</span>
+              <input
+                aria-label={t('currency.rate')}
+                type="number"
+                min={0}
+                step="any"
+                value={entry.rate}
+                onChange={(e) => updateRate(index, { rate: Number(e.target.value) })}
+                className={`w-28 ${inputClassName}`}
+              />
+              <span>{t('currency.rateFrom', { pivot: PIVOT_CURRENCY })}</span>
+              <input
+                aria-label={t('currency.validFrom')}
+                type="date"
+                value={entry.validFrom}
+                onChange={(e) => updateRate(index, { validFrom: e.target.value })}
+                className={inputClassName}
+              />
+              <button
+                aria-label={t('currency.removeRate')}
+                onClick={() => onRatesChange(rates.filter((_, i) => i !== index))}
+                className="p-1.5 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => onRatesChange([
+              ...rates,
+              { currency: currencies.find(currency => currency !== PIVOT_CURRENCY) ?? '', rate: 1, validFrom: toDayKey(new Date()) },
+            ])}
+            className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-indigo-600 hover:bg-indigo-50"
+          >
+            <Plus className="w-4 h-4" />
+            {t('currency.addRate')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+
+import {
+  createCzechiBankClient,
+  PROXY_BASE_URL,
+  type BankAccount,
+  type Transaction,
+  type TransactionHistory,
+  type TransactionHistoryProgress,
+  type User,
+} from '@/lib/czechibank';
+import { getSessionStatus } from '@/lib/session-client';
+
+// Loaded data lives above the pages, so the drill-down routes can reuse what the
+// dashboard fetched (or imported offline) instead of loading everything again.
+
+export interface DashboardData {
+  transactions: Transaction[];
+  accounts: BankAccount[];
+  currentUser: User | null;
+  historyStatus: Omit<TransactionHistory, 'transactions'>;
+  // Set while looking at an imported file instead of the API.
+  offlineFileName: string | null;
+}
+
+export const EMPTY_DASHBOARD_DATA: DashboardData = {
+  transactions: [],
+  accounts: [],
+  currentUser: null,
+  historyStatus: { complete: true },
+  offlineFileName: null,
+};
+
+interface DashboardDataContextValue {
+  data: DashboardData;
+  setData: (data: DashboardData) => void;
+  // The dashboard's view as a query string (see url-state), for links back to it.
+  viewQuery: string;
+  setViewQuery: (query: string) => void;
+}
+
+const DashboardDataContext = createContext<DashboardDataContextValue | null>(null);
+
+export function DashboardDataProvider({ children }: { children: ReactNode }) {
+  const [data, setData] = useState<DashboardData>(EMPTY_DASHBOARD_DATA);
+  const [viewQuery, setViewQuery] = useState('');
+  return <DashboardDataContext.Provider value={{ data, setData, viewQuery, setViewQuery }}>{children}</DashboardDataContext.Provider>;
+}
+
+export function useDashboardData(): DashboardDataContextValue {
+  const context = useContext(DashboardDataContext);
+  if (!context) throw new Error('useDashboardData must be used inside DashboardDataProvider');
+  return context;
+}
+
+// Everything the dashboard shows, fetched through the session proxy.
+export async function fetchDashboardData(onProgress?: (progress: TransactionHistoryProgress) => void): Promise<DashboardData> {
+  const client = createCzechiBankClient({ baseUrl: PROXY_BASE_URL });
+  const [history, accounts, user] = await Promise.all([
+    client.getTransactionHistory(onProgress),
+    client.getBankAccounts(),
+    client.getUser(),
+  ]);
+  return {
+    transactions: history.transactions,
+    accounts,
+    currentUser: user,
+    historyStatus: { complete: history.complete, incompleteReason: history.incompleteReason },
+    offlineFileName: null,
+  };
+}
+
+export type DashboardDataStatus = 'loading' | 'ready' | 'signedOut' | 'error';
+
+// For pages other than the dashboard: uses the loaded data, or resumes the session and
+// fetches it when the page was opened directly.
+export function useLoadedDashboardData(): { data: DashboardData; status: DashboardDataStatus } {
+  const { data, setData } = useDashboardData();
+  const [status, setStatus] = useState<DashboardDataStatus>(data.currentUser ? 'ready' : 'loading');
+
+  useEffect(() => {
+    if (data.currentUser) return;
+    getSessionStatus()
+      .then(async session => {
+        if (!session.authenticated) {
+          setStatus('signedOut');
+          return;
+        }
+        setData(await fetchDashboardData());
+        setStatus('ready');
+      })
+      .catch(error => {
+        console.error('Error loading data:', error);
+        setStatus('error');
+      });
+  }, []);
+
+  return { data, status };
+}
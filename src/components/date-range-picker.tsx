@@ -0,0 +1,51 @@
+'use client';
+
+import { useI18n } from '@/components/i18n-provider';
+import { DATE_RANGE_PRESETS, type DateRange } from '@/lib/date-range';
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+export function DateRangePicker({ value, onChange }: DateRangePickerProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-8 bg-card/90 p-4 rounded-2xl shadow-xl border border-white/20">
+      <span className="text-sm font-medium text-gray-700 mr-2">{t('dateRange.label')}</span>
+      {DATE_RANGE_PRESETS.map(preset => (
+        <button
+          key={preset}
+          onClick={() => onChange({ ...value, preset })}
+          className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+            value.preset === preset ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          {t(`dateRange.${preset}`)}
+        </button>
+      ))}
+      {value.preset === 'custom' && (
+        <div className="flex items-center gap-2 ml-2">
+          <input
+            type="date"
+            aria-label={t('dateRange.from')}
+            value={value.from ?? ''}
+            max={value.to}
+            onChange={(e) => onChange({ ...value, from: e.target.value || undefined })}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <span className="text-gray-500">–</span>
+          <input
+            type="date"
+            aria-label={t('dateRange.to')}
+            value={value.to ?? ''}
+            min={value.from}
+            onChange={(e) => onChange({ ...value, to: e.target.value || undefined })}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
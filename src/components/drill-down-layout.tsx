@@ -0,0 +1,62 @@
+'use client';
+
+import { ArrowLeft } from 'lucide-react';
+import Link from 'next/link';
+import type { ReactNode } from 'react';
+
+import { useDashboardData, type DashboardDataStatus } from '@/components/dashboard-data-provider';
+import { useI18n } from '@/components/i18n-provider';
+import { LanguageSwitcher } from '@/components/language-switcher';
+import { ThemeSwitcher } from '@/components/theme-switcher';
+import { dashboardHref } from '@/lib/routes';
+
+interface DrillDownLayoutProps {
+  title: string;
+  subtitle?: ReactNode;
+  // Defaults to the dashboard in the view it was left in.
+  backHref?: string;
+  backLabel?: string;
+  status: DashboardDataStatus;
+  children: ReactNode;
+}
+
+// Frame of the pages below the dashboard; shows the loading and signed-out states until
+// the data is there.
+export function DrillDownLayout({ title, subtitle, backHref, backLabel, status, children }: DrillDownLayoutProps) {
+  const { t } = useI18n();
+  const dashboard = dashboardHref(useDashboardData().viewQuery);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-500 to-purple-500 dark:from-indigo-950 dark:to-purple-950">
+      <div className="container mx-auto p-8">
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <Link href={backHref ?? dashboard} className="inline-flex items-center gap-2 text-sm font-medium text-white/80 hover:text-white">
+            <ArrowLeft className="w-4 h-4" />
+            {backLabel ?? t('drillDown.dashboard')}
+          </Link>
+          <div className="flex items-center gap-2">
+            <ThemeSwitcher />
+            <LanguageSwitcher />
+          </div>
+        </div>
+        <div className="mb-12">
+          <h1 className="text-4xl font-bold text-white">{title}</h1>
+          {subtitle && <div className="mt-2 text-white/80">{subtitle}</div>}
+        </div>
+
+        {status === 'loading' && (
+          <div className="flex flex-col items-center justify-center min-h-[400px]">
+            <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-b-4 border-white"></div>
+          </div>
+        )}
+        {(status === 'signedOut' || status === 'error') && (
+          <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20 text-gray-700">
+            {t(status === 'signedOut' ? 'drillDown.signedOut' : 'drillDown.error')}{' '}
+            <Link href={dashboard} className="font-medium text-indigo-600 hover:underline">{t('drillDown.goToDashboard')}</Link>
+          </div>
+        )}
+        {status === 'ready' && children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { Download } from 'lucide-react';
+
+import { useI18n } from '@/components/i18n-provider';
+import { downloadRows, EXPORT_FORMATS } from '@/lib/export';
+
+interface ExportMenuProps {
+  dataset: string;
+  // Built lazily so large tables are only serialized when the user actually exports.
+  getRows: () => object[];
+}
+
+export function ExportMenu({ dataset, getRows }: ExportMenuProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center gap-1 text-sm">
+      <Download className="w-4 h-4 text-gray-400 mr-1" aria-hidden />
+      {EXPORT_FORMATS.map(format => (
+        <button
+          key={format.value}
+          onClick={() => downloadRows(dataset, getRows(), format.value)}
+          title={t('export.as', { format: t(`export.${format.value}`) })}
+          className="px-2 py-1 rounded-md text-gray-600 hover:bg-gray-100 hover:text-gray-900 transition-colors"
+        >
+          {t(`export.${format.value}`)}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useI18n } from '@/components/i18n-provider';
+import { FORECAST_HORIZONS, type BalanceForecast } from '@/lib/forecast';
+
+interface ForecastSummaryProps {
+  forecast: BalanceForecast;
+  days: number;
+  onDaysChange: (days: number) => void;
+  currency: string;
+}
+
+export function ForecastSummary({ forecast, days, onDaysChange, currency }: ForecastSummaryProps) {
+  const { t, format } = useI18n();
+  const end = forecast.points[forecast.points.length - 1];
+  const zeroDay = forecast.daysUntilZero !== null ? forecast.points[forecast.daysUntilZero]?.day : undefined;
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 mb-6 text-sm">
+      <div className="inline-flex rounded-lg bg-gray-100 p-0.5 text-xs font-medium" role="group" aria-label={t('forecast.horizon')}>
+        {FORECAST_HORIZONS.map(option => (
+          <button
+            key={option}
+            onClick={() => onDaysChange(option)}
+            aria-pressed={days === option}
+            className={`px-2.5 py-1 rounded-md transition-colors ${
+              days === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {t('common.dayCount', { count: option })}
+          </button>
+        ))}
+      </div>
+      {end && (
+        <span className="text-gray-600">
+          {t('forecast.expected', { date: format.date(end.day) })}{' '}
+          <span className="font-medium text-gray-900">{format.amount(end.balance, currency)}</span>
+          <span className="text-gray-400"> ({t('common.range', { from: format.number(end.lower), to: format.number(end.upper) })})</span>
+        </span>
+      )}
+      {forecast.daysUntilZero === 0 ? (
+        <span className="px-2.5 py-1 rounded-full bg-red-100 text-red-700 font-medium">{t('forecast.alreadyZero')}</span>
+      ) : zeroDay ? (
+        <span className="px-2.5 py-1 rounded-full bg-red-100 text-red-700 font-medium">
+          {t('forecast.hitsZero', { days: t('common.dayCount', { count: forecast.daysUntilZero! }), date: format.date(zeroDay) })}
+        </span>
+      ) : (
+        <span className="px-2.5 py-1 rounded-full bg-emerald-100 text-emerald-700 font-medium">
+          {t('forecast.staysAbove', { days: t('common.dayCount', { count: days }) })}
+        </span>
+      )}
+    </div>
+  );
+}
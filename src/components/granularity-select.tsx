@@ -0,0 +1,30 @@
+'use client';
+
+import { useI18n } from '@/components/i18n-provider';
+import { GRANULARITIES, type Granularity } from '@/lib/time-buckets';
+
+interface GranularitySelectProps {
+  value: Granularity;
+  onChange: (granularity: Granularity) => void;
+}
+
+export function GranularitySelect({ value, onChange }: GranularitySelectProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="inline-flex rounded-lg bg-gray-100 p-0.5 text-xs font-medium" role="group" aria-label={t('granularity.label')}>
+      {GRANULARITIES.map(option => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          aria-pressed={value === option}
+          className={`px-2.5 py-1 rounded-md transition-colors ${
+            value === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          {t(`granularity.${option}`)}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { createContext, useContext, useMemo, useState, type ReactNode } from 'react';
+
+import { createFormatters, LOCALE_COOKIE, translate, type Formatters, type Locale, type Translate } from '@/lib/i18n';
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  format: Formatters;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+// A year, so the choice outlives the 8-hour session.
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+// `initialLocale` comes from the server, which read the same cookie to render the page.
+export function I18nProvider({ initialLocale, children }: { initialLocale: Locale; children: ReactNode }) {
+  const router = useRouter();
+  const [locale, setLocaleState] = useState(initialLocale);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    setLocale: (next: Locale) => {
+      document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${COOKIE_MAX_AGE}; samesite=lax`;
+      document.documentElement.lang = next;
+      setLocaleState(next);
+      // Re-renders the server layout for the translated title and description
+      router.refresh();
+    },
+    t: (key, values) => translate(locale, key, values),
+    format: createFormatters(locale),
+  }), [locale, router]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside I18nProvider');
+  return context;
+}
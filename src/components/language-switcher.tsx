@@ -0,0 +1,28 @@
+'use client';
+
+import { useI18n } from '@/components/i18n-provider';
+import { LOCALES } from '@/lib/i18n';
+
+// For the gradient background around the cards.
+export function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div className="inline-flex rounded-lg bg-white/20 p-0.5 text-xs font-medium" role="group" aria-label={t('app.language')}>
+      {LOCALES.map(option => (
+        <button
+          key={option.value}
+          onClick={() => setLocale(option.value)}
+          aria-pressed={locale === option.value}
+          title={option.label}
+          lang={option.value}
+          className={`px-2.5 py-1 rounded-md uppercase transition-colors ${
+            locale === option.value ? 'bg-white text-indigo-600 shadow-sm' : 'text-white/80 hover:text-white'
+          }`}
+        >
+          {option.value}
+        </button>
+      ))}
+    </div>
+  );
+}
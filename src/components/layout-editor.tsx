@@ -0,0 +1,89 @@
+'use client';
+
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { useState } from 'react';
+
+import { useI18n } from '@/components/i18n-provider';
+import { DEFAULT_LAYOUT, isDefaultLayout, moveWidget, type DashboardLayout, type WidgetLayout } from '@/lib/layout';
+
+interface LayoutEditorProps {
+  layout: DashboardLayout;
+  onChange: (layout: DashboardLayout) => void;
+}
+
+const inputClassName = 'px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+export function LayoutEditor({ layout, onChange }: LayoutEditorProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const visibleCount = layout.filter(widget => widget.visible).length;
+
+  const updateWidget = (id: WidgetLayout['id'], changes: Partial<WidgetLayout>) =>
+    onChange(layout.map(widget => (widget.id === id ? { ...widget, ...changes } : widget)));
+
+  return (
+    <div className="mb-8 bg-card/90 p-4 rounded-2xl shadow-xl border border-white/20">
+      <div className="flex flex-wrap items-center gap-4">
+        <span className="text-sm font-medium text-gray-700">{t('layout.title')}</span>
+        <span className="text-sm text-gray-500">{t('layout.summary', { visible: visibleCount, count: layout.length })}</span>
+        <button
+          onClick={() => setOpen(!open)}
+          className="px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          {t(open ? 'layout.done' : 'layout.customize')}
+        </button>
+        {!isDefaultLayout(layout) && (
+          <button
+            onClick={() => onChange(DEFAULT_LAYOUT)}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium text-indigo-600 hover:bg-indigo-50"
+          >
+            {t('layout.reset')}
+          </button>
+        )}
+      </div>
+
+      {open && (
+        <ul className="mt-4 divide-y divide-gray-100">
+          {layout.map((widget, index) => (
+            <li key={widget.id} className="flex flex-wrap items-center gap-3 py-2 text-sm">
+              <label className="flex flex-1 min-w-48 items-center gap-2 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={widget.visible}
+                  onChange={(e) => updateWidget(widget.id, { visible: e.target.checked })}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                {t(`layout.widget.${widget.id}`)}
+              </label>
+              <select
+                aria-label={t('layout.width', { widget: t(`layout.widget.${widget.id}`) })}
+                value={widget.size}
+                onChange={(e) => updateWidget(widget.id, { size: e.target.value as WidgetLayout['size'] })}
+                className={inputClassName}
+              >
+                <option value="half">{t('layout.size.half')}</option>
+                <option value="full">{t('layout.size.full')}</option>
+              </select>
+              <button
+                aria-label={t('layout.moveUp', { widget: t(`layout.widget.${widget.id}`) })}
+                onClick={() => onChange(moveWidget(layout, widget.id, -1))}
+                disabled={index === 0}
+                className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                aria-label={t('layout.moveDown', { widget: t(`layout.widget.${widget.id}`) })}
+                onClick={() => onChange(moveWidget(layout, widget.id, 1))}
+                disabled={index === layout.length - 1}
+                className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
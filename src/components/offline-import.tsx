@@ -0,0 +1,146 @@
+'use client';
+
+import { Upload } from 'lucide-react';
+import { useState } from 'react';
+
+import { useI18n } from '@/components/i18n-provider';
+import type { Transaction } from '@/lib/czechibank';
+import { buildOfflineDataset, ImportError, listParties, parseTransactionsFile, type ImportedParty, type OfflineDataset } from '@/lib/import';
+
+interface OfflineImportProps {
+  onLoad: (dataset: OfflineDataset, fileName: string) => void;
+}
+
+const ALL_PARTY_ACCOUNTS = 'all';
+
+export function OfflineImport({ onLoad }: OfflineImportProps) {
+  const { t } = useI18n();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [parties, setParties] = useState<ImportedParty[]>([]);
+  const [partyId, setPartyId] = useState('');
+  const [accountNumber, setAccountNumber] = useState(ALL_PARTY_ACCOUNTS);
+  const [error, setError] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const selectedParty = parties.find(party => party.id === partyId);
+
+  const readFile = async (file: File) => {
+    setError(null);
+    try {
+      const parsed = parseTransactionsFile(file.name, await file.text());
+      const candidates = listParties(parsed);
+      setFileName(file.name);
+      setTransactions(parsed);
+      setParties(candidates);
+      setPartyId(candidates[0]?.id ?? '');
+      setAccountNumber(ALL_PARTY_ACCOUNTS);
+    } catch (error) {
+      console.error('Error importing file:', error);
+      setFileName(null);
+      setParties([]);
+      setError(error instanceof ImportError ? t(`offline.error.${error.reason}`, { detail: error.detail ?? '' }) : t('offline.readError'));
+    }
+  };
+
+  const handleOpen = () => {
+    if (!selectedParty || !fileName) return;
+    const accountNumbers = accountNumber === ALL_PARTY_ACCOUNTS ? selectedParty.accountNumbers : [accountNumber];
+    onLoad(buildOfflineDataset(transactions, selectedParty, accountNumbers), fileName);
+  };
+
+  return (
+    <div className="space-y-4">
+      <label
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          const file = e.dataTransfer.files[0];
+          if (file) readFile(file);
+        }}
+        className={`flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
+          dragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 hover:border-indigo-400'
+        }`}
+      >
+        <Upload className="w-6 h-6 text-gray-400" />
+        <span className="text-sm text-gray-600 text-center">
+          {fileName
+            ? t('offline.file', { file: fileName, count: t('common.transactionCount', { count: transactions.length }) })
+            : t('offline.drop')}
+        </span>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="sr-only"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) readFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {parties.length > 0 && (
+        <>
+          <div>
+            <label htmlFor="offline-party" className="block text-sm font-medium text-gray-700 mb-1">
+              {t('offline.who')}
+            </label>
+            <select
+              id="offline-party"
+              value={partyId}
+              onChange={(e) => {
+                setPartyId(e.target.value);
+                setAccountNumber(ALL_PARTY_ACCOUNTS);
+              }}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              {parties.map(party => (
+                <option key={party.id} value={party.id}>
+                  {t('offline.party', { name: party.name, count: t('common.transactionCount', { count: party.transactionCount }) })}
+                </option>
+              ))}
+            </select>
+          </div>
+          {selectedParty && selectedParty.accountNumbers.length > 1 && (
+            <div>
+              <label htmlFor="offline-account" className="block text-sm font-medium text-gray-700 mb-1">
+                {t('offline.accounts')}
+              </label>
+              <select
+                id="offline-account"
+                value={accountNumber}
+                onChange={(e) => setAccountNumber(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value={ALL_PARTY_ACCOUNTS}>{t('offline.allAccounts', { count: selectedParty.accountNumbers.length })}</option>
+                {selectedParty.accountNumbers.map(number => (
+                  <option key={number} value={number}>{number}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <p className="text-xs text-gray-500">{t('offline.help')}</p>
+          <button
+            onClick={handleOpen}
+            disabled={!selectedParty}
+            className="w-full bg-card text-indigo-600 border border-indigo-600 py-2 px-4 rounded-lg hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('offline.open')}
+          </button>
+        </>
+      )}
+
+      {error && (
+        <div className="text-red-600 text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
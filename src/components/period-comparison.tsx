@@ -0,0 +1,149 @@
+'use client';
+
+import Link from 'next/link';
+
+import { useI18n } from '@/components/i18n-provider';
+import { COMPARISON_MODES, type ComparisonSettings, type MetricComparison, type PartnerComparison } from '@/lib/comparison';
+import type { ResolvedDateRange } from '@/lib/date-range';
+import type { Formatters, Translate } from '@/lib/i18n';
+import { partnerHref } from '@/lib/routes';
+
+interface PeriodComparisonProps {
+  settings: ComparisonSettings;
+  onChange: (settings: ComparisonSettings) => void;
+  currentRange: ResolvedDateRange;
+  // null when there is nothing to compare with yet.
+  comparisonRange: ResolvedDateRange | null;
+  metrics: MetricComparison[];
+  partners: PartnerComparison[];
+  currency: string;
+}
+
+const formatRange = ({ start, end }: ResolvedDateRange, t: Translate, format: Formatters) => t('common.range', {
+  from: start ? format.date(start) : t('dateRange.beginning'),
+  to: end ? format.date(end) : t('dateRange.today'),
+});
+
+// Expense going up is bad news, everything else going up is good news.
+function deltaClassName(delta: number, metric?: MetricComparison['metric']) {
+  if (delta === 0) return 'text-gray-500';
+  const improved = metric === 'expense' ? delta < 0 : delta > 0;
+  return improved ? 'text-incoming' : 'text-outgoing';
+}
+
+function Change({ delta, change, metric }: { delta: number; change: number | null; metric?: MetricComparison['metric'] }) {
+  const { t, format } = useI18n();
+  return (
+    <span className={`font-medium ${deltaClassName(delta, metric)}`}>
+      {format.signedAmount(delta)}
+      <span className="ml-1 text-xs">
+        ({change === null ? (delta === 0 ? format.percentChange(0) : t('comparison.new')) : format.percentChange(change)})
+      </span>
+    </span>
+  );
+}
+
+export function PeriodComparison({ settings, onChange, currentRange, comparisonRange, metrics, partners, currency }: PeriodComparisonProps) {
+  const { t, format } = useI18n();
+  const inputClassName = 'px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+  return (
+    <div className="bg-card/90 p-4 rounded-2xl shadow-xl border border-white/20">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-700 mr-2">{t('comparison.label')}</span>
+        {COMPARISON_MODES.map(mode => (
+          <button
+            key={mode}
+            onClick={() => onChange({ ...settings, mode })}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              settings.mode === mode ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {t(`comparison.${mode}`)}
+          </button>
+        ))}
+        {settings.mode === 'custom' && (
+          <div className="flex items-center gap-2 ml-2">
+            <input
+              type="date"
+              aria-label={t('comparison.from')}
+              value={settings.from ?? ''}
+              max={settings.to}
+              onChange={(e) => onChange({ ...settings, from: e.target.value || undefined })}
+              className={inputClassName}
+            />
+            <span className="text-gray-500">–</span>
+            <input
+              type="date"
+              aria-label={t('comparison.to')}
+              value={settings.to ?? ''}
+              min={settings.from}
+              onChange={(e) => onChange({ ...settings, to: e.target.value || undefined })}
+              className={inputClassName}
+            />
+          </div>
+        )}
+      </div>
+
+      {settings.mode !== 'none' && !comparisonRange && (
+        <p className="mt-3 text-sm text-gray-500">
+          {t(settings.mode === 'custom' ? 'comparison.pickRange' : 'comparison.needsStart')}
+        </p>
+      )}
+
+      {comparisonRange && (
+        <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">{t('comparison.metric')}</th>
+                <th className="py-2 pr-4 font-medium text-right" title={formatRange(currentRange, t, format)}>{t('comparison.thisPeriod')}</th>
+                <th className="py-2 pr-4 font-medium text-right" title={formatRange(comparisonRange, t, format)}>
+                  {formatRange(comparisonRange, t, format)}
+                </th>
+                <th className="py-2 font-medium text-right">{t('comparison.change')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {metrics.map(row => (
+                <tr key={row.metric}>
+                  <td className="py-2 pr-4 text-gray-700">{t(`comparison.${row.metric}`)}</td>
+                  <td className="py-2 pr-4 text-right text-gray-900">
+                    {row.metric === 'count' ? format.number(row.current) : format.amount(row.current, currency)}
+                  </td>
+                  <td className="py-2 pr-4 text-right text-gray-500">{format.number(row.previous)}</td>
+                  <td className="py-2 text-right"><Change delta={row.delta} change={row.change} metric={row.metric} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">{t('comparison.topPartners')}</th>
+                <th className="py-2 pr-4 font-medium text-right">{t('comparison.thisPeriod')}</th>
+                <th className="py-2 pr-4 font-medium text-right">{t('comparison.before')}</th>
+                <th className="py-2 font-medium text-right">{t('comparison.change')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {partners.length === 0 && (
+                <tr><td colSpan={4} className="py-2 text-gray-500">{t('comparison.noPartners')}</td></tr>
+              )}
+              {partners.map(row => (
+                <tr key={row.id}>
+                  <td className="py-2 pr-4 text-gray-700 truncate max-w-[160px]" title={row.name}>
+                    <Link href={partnerHref(row.id)} className="hover:text-indigo-600 hover:underline">{row.name}</Link>
+                  </td>
+                  <td className="py-2 pr-4 text-right text-gray-900">{format.number(row.current)}</td>
+                  <td className="py-2 pr-4 text-right text-gray-500">{format.number(row.previous)}</td>
+                  <td className="py-2 text-right"><Change delta={row.delta} change={row.change} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+
+import { ConnectionForm, type Connection } from '@/components/connection-form';
+import { useI18n } from '@/components/i18n-provider';
+import type { ApiEnvironment } from '@/lib/environments';
+import type { ProfileSummary } from '@/lib/session';
+
+interface ProfileSwitcherProps {
+  profiles: ProfileSummary[];
+  activeProfileId: string | null;
+  environments: ApiEnvironment[];
+  onEnvironmentsChange: (environments: ApiEnvironment[]) => void;
+  busy: boolean;
+  onSwitch: (profileId: string) => void;
+  onRemove: (profileId: string) => void;
+  onAdd: (connection: Connection) => Promise<boolean>;
+}
+
+export function ProfileSwitcher({ profiles, activeProfileId, environments, onEnvironmentsChange, busy, onSwitch, onRemove, onAdd }: ProfileSwitcherProps) {
+  const { t } = useI18n();
+  const [adding, setAdding] = useState(false);
+  const active = profiles.find(profile => profile.id === activeProfileId);
+
+  return (
+    <div className="relative flex items-center gap-2">
+      <select
+        aria-label={t('profiles.select')}
+        value={activeProfileId ?? ''}
+        onChange={(e) => onSwitch(e.target.value)}
+        disabled={busy}
+        title={active?.baseUrl}
+        className="px-4 py-2 rounded-lg bg-card/90 text-gray-800 border border-white/20 focus:ring-2 focus:ring-indigo-500"
+      >
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>{profile.label}</option>
+        ))}
+      </select>
+      <button
+        aria-label={t('profiles.add')}
+        title={t('profiles.add')}
+        onClick={() => setAdding(!adding)}
+        className="p-2 rounded-lg bg-white/20 text-white hover:bg-white/30"
+      >
+        <Plus className="w-4 h-4" />
+      </button>
+      {active && (
+        <button
+          aria-label={t('profiles.forget', { name: active.label })}
+          title={t('profiles.forgetThis')}
+          onClick={() => onRemove(active.id)}
+          disabled={busy}
+          className="p-2 rounded-lg bg-white/20 text-white hover:bg-white/30"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      )}
+      {adding && (
+        <div className="absolute left-0 top-full mt-2 z-20 w-96 bg-card p-6 rounded-2xl shadow-xl border border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-800 mb-4">{t('profiles.add')}</h2>
+          <ConnectionForm
+            environments={environments}
+            onEnvironmentsChange={onEnvironmentsChange}
+            submitLabel={t('profiles.saveAndSwitch')}
+            busy={busy}
+            onSubmit={async (connection) => {
+              const saved = await onAdd(connection);
+              if (saved) setAdding(false);
+              return saved;
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { AlertTriangle, Repeat } from 'lucide-react';
+
+import { ExportMenu } from '@/components/export-menu';
+import { useI18n } from '@/components/i18n-provider';
+import type { Formatters, Translate } from '@/lib/i18n';
+import type { RecurringAlert, RecurringSeries } from '@/lib/recurring';
+
+interface RecurringPaymentsProps {
+  series: RecurringSeries[];
+}
+
+const describeAlert = (entry: RecurringSeries, alert: RecurringAlert, t: Translate, format: Formatters) => alert.type === 'missing'
+  ? t('recurring.missing', {
+    partner: entry.counterparty.name,
+    date: format.date(alert.expected),
+    late: t('common.dayCount', { count: alert.daysLate }),
+  })
+  : t('recurring.amountChanged', {
+    partner: entry.counterparty.name,
+    amount: format.amount(alert.amount, entry.currency),
+    average: format.amount(alert.previousAverage, entry.currency),
+  });
+
+export function RecurringPayments({ series }: RecurringPaymentsProps) {
+  const { t, format } = useI18n();
+  const alerts = series.flatMap(entry => entry.alerts.map(alert => ({ entry, alert })));
+
+  return (
+    <div className="bg-card p-8 rounded-2xl shadow-xl border border-white/20">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-xl font-semibold text-gray-800">{t('recurring.title')}</h2>
+        <ExportMenu
+          dataset="recurring"
+          getRows={() => series.map(entry => ({
+            partner: entry.counterparty.name,
+            account: entry.counterparty.number,
+            direction: entry.direction,
+            cadence: entry.cadence,
+            currency: entry.currency,
+            averageAmount: entry.averageAmount,
+            lastAmount: entry.lastAmount,
+            count: entry.count,
+            firstDate: entry.firstDate,
+            lastDate: entry.lastDate,
+            nextExpected: entry.active ? entry.nextExpected : '',
+          }))}
+        />
+      </div>
+
+      {alerts.length > 0 && (
+        <ul className="mb-6 space-y-2">
+          {alerts.map(({ entry, alert }) => (
+            <li key={`${entry.id}-${alert.type}`} className="flex items-start gap-2 rounded-xl bg-amber-50 px-4 py-3 text-sm text-amber-800">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              {describeAlert(entry, alert, t, format)}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {series.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('recurring.empty')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-6 font-medium">{t('common.partner')}</th>
+                <th className="py-2 pr-6 font-medium">{t('recurring.cadence')}</th>
+                <th className="py-2 pr-6 font-medium text-right">{t('recurring.average')}</th>
+                <th className="py-2 pr-6 font-medium text-right">{t('recurring.last')}</th>
+                <th className="py-2 pr-6 font-medium text-right">{t('recurring.payments')}</th>
+                <th className="py-2 font-medium">{t('recurring.nextExpected')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {series.map(entry => {
+                const sign = entry.direction === 'incoming' ? 1 : -1;
+                return (
+                  <tr key={entry.id} className={entry.active ? '' : 'text-gray-400'}>
+                    <td className="py-2 pr-6">
+                      <div className="flex items-center gap-2 font-medium text-gray-900">
+                        <Repeat className="w-4 h-4 text-gray-400" />
+                        {entry.counterparty.name}
+                      </div>
+                      <div className="text-xs text-gray-500">{entry.counterparty.number}</div>
+                    </td>
+                    <td className="py-2 pr-6 text-gray-700">{t(`recurring.${entry.cadence}`)}</td>
+                    <td className={`py-2 pr-6 text-right font-medium ${entry.direction === 'incoming' ? 'text-incoming' : 'text-outgoing'}`}>
+                      {format.signedAmount(sign * entry.averageAmount, entry.currency)}
+                    </td>
+                    <td className="py-2 pr-6 text-right text-gray-700">{format.signedAmount(sign * entry.lastAmount)}</td>
+                    <td className="py-2 pr-6 text-right text-gray-700">{format.number(entry.count)}</td>
+                    <td className="py-2 text-gray-700">
+                      {entry.active
+                        ? format.date(entry.nextExpected)
+                        : <span className="text-xs text-gray-400">{t('recurring.ended', { date: format.date(entry.lastDate) })}</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
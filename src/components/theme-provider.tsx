@@ -0,0 +1,69 @@
+'use client';
+
+import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+
+import { PALETTE_COOKIE, THEME_COOKIE, type ColorPalette, type ThemeMode } from '@/lib/theme';
+
+interface ThemeContextValue {
+  mode: ThemeMode;
+  setMode: (mode: ThemeMode) => void;
+  palette: ColorPalette;
+  setPalette: (palette: ColorPalette) => void;
+}
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+const saveCookie = (name: string, value: string) => {
+  document.cookie = `${name}=${value}; path=/; max-age=${COOKIE_MAX_AGE}; samesite=lax`;
+};
+
+// The server renders <html> from the same cookies; this keeps it in sync afterwards and
+// follows the system setting while the mode is `system`.
+export function ThemeProvider({ initialMode, initialPalette, children }: {
+  initialMode: ThemeMode;
+  initialPalette: ColorPalette;
+  children: ReactNode;
+}) {
+  const [mode, setModeState] = useState(initialMode);
+  const [palette, setPaletteState] = useState(initialPalette);
+
+  useEffect(() => {
+    const root = document.documentElement;
+    if (mode !== 'system') {
+      root.classList.toggle('dark', mode === 'dark');
+      return;
+    }
+    const query = window.matchMedia('(prefers-color-scheme: dark)');
+    const apply = () => root.classList.toggle('dark', query.matches);
+    apply();
+    query.addEventListener('change', apply);
+    return () => query.removeEventListener('change', apply);
+  }, [mode]);
+
+  useEffect(() => {
+    document.documentElement.dataset.palette = palette;
+  }, [palette]);
+
+  const value = useMemo<ThemeContextValue>(() => ({
+    mode,
+    setMode: (next: ThemeMode) => {
+      saveCookie(THEME_COOKIE, next);
+      setModeState(next);
+    },
+    palette,
+    setPalette: (next: ColorPalette) => {
+      saveCookie(PALETTE_COOKIE, next);
+      setPaletteState(next);
+    },
+  }), [mode, palette]);
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+}
+
+export function useTheme(): ThemeContextValue {
+  const context = useContext(ThemeContext);
+  if (!context) throw new Error('useTheme must be used inside ThemeProvider');
+  return context;
+}
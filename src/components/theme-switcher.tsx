@@ -0,0 +1,51 @@
+'use client';
+
+import { Eye, Monitor, Moon, Sun } from 'lucide-react';
+
+import { useI18n } from '@/components/i18n-provider';
+import { useTheme } from '@/components/theme-provider';
+import { THEME_MODES } from '@/lib/theme';
+
+const MODE_ICONS = { light: Sun, dark: Moon, system: Monitor };
+
+// For the gradient background around the cards, next to the language switcher.
+export function ThemeSwitcher() {
+  const { mode, setMode, palette, setPalette } = useTheme();
+  const { t } = useI18n();
+  const colorBlind = palette === 'colorBlind';
+
+  return (
+    <div className="inline-flex items-center gap-1">
+      <div className="inline-flex rounded-lg bg-white/20 p-0.5" role="group" aria-label={t('theme.label')}>
+        {THEME_MODES.map(option => {
+          const Icon = MODE_ICONS[option];
+          return (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              aria-pressed={mode === option}
+              aria-label={t(`theme.${option}`)}
+              title={t(`theme.${option}`)}
+              className={`p-1.5 rounded-md transition-colors ${
+                mode === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-white/80 hover:text-white'
+              }`}
+            >
+              <Icon className="w-3.5 h-3.5" />
+            </button>
+          );
+        })}
+      </div>
+      <button
+        onClick={() => setPalette(colorBlind ? 'default' : 'colorBlind')}
+        aria-pressed={colorBlind}
+        aria-label={t('theme.colorBlind')}
+        title={t('theme.colorBlind')}
+        className={`p-2 rounded-lg transition-colors ${
+          colorBlind ? 'bg-white text-indigo-600 shadow-sm' : 'bg-white/20 text-white/80 hover:text-white'
+        }`}
+      >
+        <Eye className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
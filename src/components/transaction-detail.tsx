@@ -0,0 +1,162 @@
+'use client';
+
+import { ArrowRight, Link2 } from 'lucide-react';
+import Link from 'next/link';
+import { useState } from 'react';
+
+import { useI18n } from '@/components/i18n-provider';
+import { getPartnerId, getSignedAmount, getTransactionDirection } from '@/lib/accounts';
+import type { BankAccount, Transaction } from '@/lib/czechibank';
+import { partnerHref, transactionHref } from '@/lib/routes';
+import { computeBalanceImpact, findRelatedTransactions } from '@/lib/transaction-detail';
+
+interface TransactionDetailProps {
+  transaction: Transaction;
+  // The whole loaded history, for the balance reconstruction and related payments.
+  transactions: Transaction[];
+  accounts: BankAccount[];
+  // Opens a related transaction in place (side panel); without it they are links.
+  onSelect?: (transactionId: string) => void;
+}
+
+const DIRECTION_KEYS = { incoming: 'direction.incoming', outgoing: 'direction.outgoing', internal: 'direction.internalTransfer' } as const;
+
+export function TransactionDetail({ transaction: tx, transactions, accounts, onSelect }: TransactionDetailProps) {
+  const { t, format } = useI18n();
+  const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const ownAccounts = new Set(accounts.map(account => account.number));
+  const signedAmount = getSignedAmount(tx, ownAccounts);
+  const direction = getTransactionDirection(tx, ownAccounts, ownAccounts);
+  const impact = computeBalanceImpact(tx, transactions, accounts);
+  const related = findRelatedTransactions(tx, transactions, ownAccounts);
+
+  const linkUrl = () => new URL(transactionHref(tx.id), window.location.origin).toString();
+
+  // The clipboard is refused without permission or outside a secure context; the link is
+  // then shown selected so it can be copied by hand
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(linkUrl());
+      setCopyState('copied');
+      setTimeout(() => setCopyState('idle'), 2000);
+    } catch (error) {
+      console.error('Error copying link:', error);
+      setCopyState('failed');
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className={`text-3xl font-bold ${signedAmount > 0 ? 'text-incoming' : signedAmount < 0 ? 'text-outgoing' : 'text-gray-700'}`}>
+            {signedAmount === 0 ? format.amount(Math.abs(tx.amount), tx.currency) : format.signedAmount(signedAmount, tx.currency)}
+          </p>
+          <p className="mt-1 text-sm text-gray-500">{format.dateTime(tx.createdAt)} · {t(DIRECTION_KEYS[direction])}</p>
+        </div>
+        <button
+          onClick={copyLink}
+          className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-indigo-600 hover:bg-indigo-50"
+        >
+          <Link2 className="w-4 h-4" />
+          {t(copyState === 'copied' ? 'transaction.linkCopied' : 'transaction.copyLink')}
+        </button>
+      </div>
+      {copyState === 'failed' && (
+        <div className="text-sm">
+          <p className="text-red-600">{t('transaction.copyFailed')}</p>
+          <input
+            readOnly
+            autoFocus
+            aria-label={t('transaction.copyLink')}
+            value={linkUrl()}
+            onFocus={(e) => e.target.select()}
+            className="mt-1 w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700"
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] items-center gap-4">
+        {[tx.from, tx.to].map((side, index) => (
+          <div key={index} className={`rounded-xl bg-gray-50 p-4 text-sm ${index === 1 ? 'md:order-3' : ''}`}>
+            <p className="text-xs font-medium uppercase tracking-wider text-gray-500">{t(index === 0 ? 'common.from' : 'common.to')}</p>
+            {ownAccounts.has(side.number) ? (
+              <p className="mt-1 font-medium text-gray-900">{side.user.name}</p>
+            ) : (
+              <Link href={partnerHref(getPartnerId(side))} className="mt-1 block font-medium text-gray-900 hover:text-indigo-600 hover:underline">
+                {side.user.name}
+              </Link>
+            )}
+            <p className="text-gray-600">{side.number}</p>
+            <p className="text-xs text-gray-400">{t('transaction.user', { id: side.user.id })}</p>
+          </div>
+        ))}
+        <ArrowRight className="hidden md:block w-5 h-5 text-gray-400 md:order-2" />
+      </div>
+
+      {impact.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-3">{t('common.balance')}</h3>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-6 font-medium">{t('transaction.account')}</th>
+                <th className="py-2 pr-6 font-medium text-right">{t('transaction.before')}</th>
+                <th className="py-2 font-medium text-right">{t('transaction.after')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {impact.map(({ account, before, after }) => (
+                <tr key={account.id}>
+                  <td className="py-2 pr-6 text-gray-700">{account.number}</td>
+                  <td className="py-2 pr-6 text-right text-gray-700">{format.amount(before, account.currency)}</td>
+                  <td className="py-2 text-right font-medium text-gray-900">{format.amount(after, account.currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-400">{t('transaction.balanceHelp')}</p>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-3">{t('transaction.related')}</h3>
+        {related.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('transaction.noRelated')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 text-sm">
+            {related.map(other => {
+              const otherAmount = getSignedAmount(other, ownAccounts);
+              const label = (
+                <>
+                  <span className="text-gray-700">{format.dateTime(other.createdAt)}</span>
+                  <span className={`font-medium ${otherAmount > 0 ? 'text-incoming' : otherAmount < 0 ? 'text-outgoing' : 'text-gray-700'}`}>
+                    {otherAmount === 0 ? format.amount(Math.abs(other.amount), other.currency) : format.signedAmount(otherAmount, other.currency)}
+                  </span>
+                </>
+              );
+              return (
+                <li key={other.id}>
+                  {onSelect ? (
+                    <button onClick={() => onSelect(other.id)} className="flex w-full justify-between gap-4 py-2 text-left hover:bg-gray-50">
+                      {label}
+                    </button>
+                  ) : (
+                    <Link href={transactionHref(other.id)} className="flex justify-between gap-4 py-2 hover:bg-gray-50">
+                      {label}
+                    </Link>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-3">{t('transaction.record')}</h3>
+        <pre className="overflow-x-auto rounded-xl bg-gray-900 p-4 text-xs text-gray-100">{JSON.stringify(tx, null, 2)}</pre>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { ExternalLink, X } from 'lucide-react';
+import Link from 'next/link';
+import { useEffect } from 'react';
+
+import { useI18n } from '@/components/i18n-provider';
+import { TransactionDetail } from '@/components/transaction-detail';
+import type { BankAccount, Transaction } from '@/lib/czechibank';
+import { transactionHref } from '@/lib/routes';
+
+interface TransactionPanelProps {
+  transaction: Transaction;
+  transactions: Transaction[];
+  accounts: BankAccount[];
+  onSelect: (transactionId: string) => void;
+  onClose: () => void;
+}
+
+export function TransactionPanel({ transaction, transactions, accounts, onSelect, onClose }: TransactionPanelProps) {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const closeOnEscape = (event: KeyboardEvent) => event.key === 'Escape' && onClose();
+    window.addEventListener('keydown', closeOnEscape);
+    return () => window.removeEventListener('keydown', closeOnEscape);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} aria-hidden />
+      <aside
+        role="dialog"
+        aria-label={t('transaction.detail')}
+        className="relative h-full w-full max-w-xl overflow-y-auto bg-card p-8 shadow-2xl"
+      >
+        <div className="flex items-center justify-between gap-4 mb-8">
+          <h2 className="text-xl font-semibold text-gray-800">{t('transaction.title')}</h2>
+          <div className="flex items-center gap-2">
+            <Link
+              href={transactionHref(transaction.id)}
+              className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-indigo-600 hover:bg-indigo-50"
+            >
+              <ExternalLink className="w-4 h-4" />
+              {t('transaction.openPage')}
+            </Link>
+            <button aria-label={t('common.close')} onClick={onClose} className="p-1.5 rounded-lg text-gray-400 hover:text-gray-700 hover:bg-gray-100">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+        <TransactionDetail transaction={transaction} transactions={transactions} accounts={accounts} onSelect={onSelect} />
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,391 @@
+'use client';
+
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronsUpDown, ChevronUp } from 'lucide-react';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+
+import { useI18n } from '@/components/i18n-provider';
+import { getPartnerId, getSignedAmount, getTransactionDirection } from '@/lib/accounts';
+import type { Anomaly, AnomalyReason } from '@/lib/anomalies';
+import type { BudgetStatus } from '@/lib/budgets';
+import { UNCATEGORIZED } from '@/lib/categories';
+import type { Transaction } from '@/lib/czechibank';
+import { convertAmount, type CurrencyView, type ExchangeRate } from '@/lib/currency';
+import type { Formatters, Translate } from '@/lib/i18n';
+import { partnerHref } from '@/lib/routes';
+import { DEFAULT_TRANSACTION_FILTERS, hasActiveFilters, type SortField, type SortOrder, type TransactionFilters } from '@/lib/transaction-filters';
+
+const PAGE_SIZES = [25, 50, 100, 250];
+
+interface TransactionsTableProps {
+  // Already filtered and sorted; the table only paginates.
+  transactions: Transaction[];
+  totalCount: number;
+  currencies: string[];
+  ownAccounts: Set<string>;
+  accountScope: Set<string>;
+  // In converted mode each amount also shows its value in the reporting currency.
+  currencyView: CurrencyView;
+  exchangeRates: ExchangeRate[];
+  // Transaction id -> category, and the manual overrides among them.
+  categories: Map<string, string>;
+  categoryOverrides: Record<string, string>;
+  categoryOptions: string[];
+  // null goes back to the category the rules assign.
+  onCategoryOverride: (transactionId: string, category: string | null) => void;
+  // Transactions counting towards a budget that is exceeded or projected to be.
+  budgetFlags: Map<string, BudgetStatus>;
+  anomalies: Map<string, Anomaly>;
+  filters: TransactionFilters;
+  onFiltersChange: (filters: TransactionFilters) => void;
+  sortField: SortField;
+  sortOrder: SortOrder;
+  onSort: (field: SortField) => void;
+  // Clicking a row opens its detail.
+  selectedTransactionId: string | null;
+  onSelectTransaction: (transactionId: string) => void;
+}
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+const parseAmount = (value: string) => (value === '' || Number.isNaN(Number(value)) ? undefined : Number(value));
+
+function describeAnomalyReason(reason: AnomalyReason, t: Translate, format: Formatters): string {
+  switch (reason.type) {
+    case 'partnerAmount':
+      return t('anomalies.partnerAmount', { typical: format.amount(reason.typical, reason.currency) });
+    case 'overallAmount':
+      return t('anomalies.overallAmount', { typical: format.amount(reason.typical, reason.currency) });
+    case 'unusualTime':
+      return t('anomalies.unusualTime', { hour: String(reason.hour).padStart(2, '0') });
+    case 'newCounterparty':
+      return t('anomalies.newCounterparty', { name: reason.name });
+  }
+}
+
+export function TransactionsTable({
+  transactions,
+  totalCount,
+  currencies,
+  ownAccounts,
+  accountScope,
+  currencyView,
+  exchangeRates,
+  categories,
+  categoryOverrides,
+  categoryOptions,
+  onCategoryOverride,
+  budgetFlags,
+  anomalies,
+  filters,
+  onFiltersChange,
+  sortField,
+  sortOrder,
+  onSort,
+  selectedTransactionId,
+  onSelectTransaction,
+}: TransactionsTableProps) {
+  const { t, format } = useI18n();
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+
+  const pageCount = Math.max(1, Math.ceil(transactions.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = transactions.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+
+  // Any change to what is being listed starts again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [filters, sortField, sortOrder, pageSize]);
+
+  const getSortIcon = (field: SortField) => {
+    if (sortField !== field) return <ChevronsUpDown className="w-4 h-4" />;
+    return sortOrder === 'asc' ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />;
+  };
+
+  const sortableHeader = (field: SortField, label: string) => (
+    <th
+      scope="col"
+      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100/50 transition-colors"
+      onClick={() => onSort(field)}
+    >
+      <div className="flex items-center space-x-1">
+        <span>{label}</span>
+        {getSortIcon(field)}
+      </div>
+    </th>
+  );
+
+  return (
+    <>
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <div className="flex-1 min-w-[220px]">
+          <label htmlFor="tx-search" className="block text-xs font-medium text-gray-500 mb-1">{t('table.search')}</label>
+          <input
+            id="tx-search"
+            type="search"
+            value={filters.search}
+            onChange={(e) => onFiltersChange({ ...filters, search: e.target.value })}
+            placeholder={t('table.searchPlaceholder')}
+            className={`w-full ${inputClassName}`}
+          />
+        </div>
+        <div>
+          <label htmlFor="tx-min" className="block text-xs font-medium text-gray-500 mb-1">{t('table.minAmount')}</label>
+          <input
+            id="tx-min"
+            type="number"
+            min={0}
+            value={filters.minAmount ?? ''}
+            onChange={(e) => onFiltersChange({ ...filters, minAmount: parseAmount(e.target.value) })}
+            className={`w-32 ${inputClassName}`}
+          />
+        </div>
+        <div>
+          <label htmlFor="tx-max" className="block text-xs font-medium text-gray-500 mb-1">{t('table.maxAmount')}</label>
+          <input
+            id="tx-max"
+            type="number"
+            min={0}
+            value={filters.maxAmount ?? ''}
+            onChange={(e) => onFiltersChange({ ...filters, maxAmount: parseAmount(e.target.value) })}
+            className={`w-32 ${inputClassName}`}
+          />
+        </div>
+        <div>
+          <label htmlFor="tx-direction" className="block text-xs font-medium text-gray-500 mb-1">{t('table.direction')}</label>
+          <select
+            id="tx-direction"
+            value={filters.direction}
+            onChange={(e) => onFiltersChange({ ...filters, direction: e.target.value as TransactionFilters['direction'] })}
+            className={inputClassName}
+          >
+            <option value="all">{t('common.all')}</option>
+            <option value="incoming">{t('direction.incoming')}</option>
+            <option value="outgoing">{t('direction.outgoing')}</option>
+            <option value="internal">{t('direction.internal')}</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="tx-currency" className="block text-xs font-medium text-gray-500 mb-1">{t('common.currency')}</label>
+          <select
+            id="tx-currency"
+            value={filters.currency}
+            onChange={(e) => onFiltersChange({ ...filters, currency: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="all">{t('common.all')}</option>
+            {currencies.map(currency => (
+              <option key={currency} value={currency}>{currency}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="tx-category" className="block text-xs font-medium text-gray-500 mb-1">{t('common.category')}</label>
+          <select
+            id="tx-category"
+            value={filters.category}
+            onChange={(e) => onFiltersChange({ ...filters, category: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="all">{t('common.all')}</option>
+            {categoryOptions.map(category => (
+              <option key={category} value={category}>{format.category(category)}</option>
+            ))}
+            <option value={UNCATEGORIZED}>{t('categories.uncategorized')}</option>
+          </select>
+        </div>
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={() => onFiltersChange(DEFAULT_TRANSACTION_FILTERS)}
+            className="px-3 py-2 text-sm font-medium text-indigo-600 hover:text-indigo-800"
+          >
+            {t('table.clearFilters')}
+          </button>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        {transactions.length === totalCount
+          ? t('common.transactionCount', { count: totalCount })
+          : t('table.matching', { matching: transactions.length, count: totalCount })}
+      </p>
+
+      {/* Transactions Table */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50/50 backdrop-blur-sm sticky top-0">
+            <tr>
+              {sortableHeader('date', t('common.date'))}
+              {sortableHeader('amount', t('common.amount'))}
+              {sortableHeader('from', t('common.from'))}
+              {sortableHeader('to', t('common.to'))}
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('common.currency')}
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t('common.category')}
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-card/50 backdrop-blur-sm divide-y divide-gray-200">
+            {pageRows.map((tx) => {
+              const signedAmount = getSignedAmount(tx, accountScope);
+              const isInternal = getTransactionDirection(tx, ownAccounts, accountScope) === 'internal';
+              const budgetFlag = budgetFlags.get(tx.id);
+              const anomaly = anomalies.get(tx.id);
+              const convertedAmount = currencyView.mode === 'converted' && tx.currency !== currencyView.currency
+                ? convertAmount(Math.abs(tx.amount), tx.currency, currencyView.currency, tx.createdAt, exchangeRates)
+                : undefined;
+              return (
+                <tr
+                  key={tx.id}
+                  onClick={(e) => {
+                    // Links and the category select inside the row keep their own behaviour
+                    if (!(e.target as HTMLElement).closest('a, button, select, input')) onSelectTransaction(tx.id);
+                  }}
+                  className={`cursor-pointer transition-colors ${tx.id === selectedTransactionId ? 'bg-indigo-50' : 'hover:bg-gray-50/50'}`}
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {format.dateTime(tx.createdAt)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span className={`font-medium ${signedAmount > 0 ? 'text-incoming' : signedAmount < 0 ? 'text-outgoing' : 'text-gray-500'}`}>
+                      {signedAmount === 0 ? format.amount(Math.abs(tx.amount), tx.currency) : format.signedAmount(signedAmount, tx.currency)}
+                    </span>
+                    {convertedAmount !== undefined && (
+                      <span className="ml-2 text-xs text-gray-400">≈ {format.amount(convertedAmount, currencyView.currency)}</span>
+                    )}
+                    {isInternal && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-600">{t('direction.internal')}</span>
+                    )}
+                    {budgetFlag && (
+                      <span
+                        className={`ml-2 px-2 py-0.5 rounded-full text-xs ${
+                          budgetFlag.state === 'exceeded' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                        }`}
+                        title={t('table.budgetSpent', {
+                          name: budgetFlag.budget.name,
+                          spent: budgetFlag.spent,
+                          limit: format.amount(budgetFlag.budget.limit, budgetFlag.budget.currency),
+                        })}
+                      >
+                        {t(budgetFlag.state === 'exceeded' ? 'table.overBudget' : 'table.budgetAtRisk')}
+                      </span>
+                    )}
+                    {anomaly && (
+                      <>
+                        <span className="ml-2 px-2 py-0.5 rounded-full bg-anomaly/15 text-xs text-anomaly">{t('anomalies.unusual')}</span>
+                        <ul className="mt-1 text-xs text-anomaly whitespace-normal max-w-xs">
+                          {anomaly.reasons.map(reason => (
+                            <li key={reason.type}>{describeAnomalyReason(reason, t, format)}</li>
+                          ))}
+                        </ul>
+                      </>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <div className="flex items-center">
+                      {ownAccounts.has(tx.from.number) ? (
+                        <span className="truncate max-w-[200px]" title={tx.from.user.name}>
+                          {tx.from.user.name}
+                        </span>
+                      ) : (
+                        <Link href={partnerHref(getPartnerId(tx.from))} className="truncate max-w-[200px] hover:text-indigo-600 hover:underline" title={tx.from.user.name}>
+                          {tx.from.user.name}
+                        </Link>
+                      )}
+                      <span className="ml-2 text-xs text-gray-400">
+                        ({tx.from.number})
+                      </span>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <div className="flex items-center">
+                      {ownAccounts.has(tx.to.number) ? (
+                        <span className="truncate max-w-[200px]" title={tx.to.user.name}>
+                          {tx.to.user.name}
+                        </span>
+                      ) : (
+                        <Link href={partnerHref(getPartnerId(tx.to))} className="truncate max-w-[200px] hover:text-indigo-600 hover:underline" title={tx.to.user.name}>
+                          {tx.to.user.name}
+                        </Link>
+                      )}
+                      <span className="ml-2 text-xs text-gray-400">
+                        ({tx.to.number})
+                      </span>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {tx.currency}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <select
+                      aria-label={t('common.category')}
+                      value={categoryOverrides[tx.id] ?? ''}
+                      onChange={(e) => onCategoryOverride(tx.id, e.target.value || null)}
+                      className={`px-2 py-1 border rounded-lg text-sm ${
+                        categoryOverrides[tx.id] ? 'border-indigo-300 text-indigo-700' : 'border-gray-200 text-gray-600'
+                      }`}
+                    >
+                      <option value="">
+                        {categoryOverrides[tx.id] ? t('table.useRules') : format.category(categories.get(tx.id) ?? UNCATEGORIZED)}
+                      </option>
+                      {categoryOptions.map(category => (
+                        <option key={category} value={category}>{format.category(category)}</option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              );
+            })}
+            {pageRows.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-6 py-12 text-center text-sm text-gray-500">
+                  {t('table.empty')}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      <div className="flex flex-wrap items-center justify-between gap-4 mt-6 text-sm text-gray-600">
+        <div className="flex items-center gap-2">
+          <label htmlFor="tx-page-size">{t('table.rowsPerPage')}</label>
+          <select
+            id="tx-page-size"
+            value={pageSize}
+            onChange={(e) => setPageSize(Number(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded-lg"
+          >
+            {PAGE_SIZES.map(size => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <span>{t('table.page', { page: currentPage + 1, pages: pageCount })}</span>
+          <button
+            aria-label={t('table.previousPage')}
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 0}
+            className="p-1.5 rounded-lg hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            aria-label={t('table.nextPage')}
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage >= pageCount - 1}
+            className="p-1.5 rounded-lg hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
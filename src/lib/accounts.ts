@@ -0,0 +1,58 @@
+import type { AccountOwner, BankAccount, Transaction } from './czechibank';
+
+export const ALL_ACCOUNTS = 'all';
+
+export type TransactionDirection = 'incoming' | 'outgoing' | 'internal';
+
+// Everything the direction helpers need: which accounts are the user's, and which of
+// them the current view is looking at.
+export interface AccountContext {
+  ownAccounts: Set<string>;
+  scope: Set<string>;
+}
+
+// The account numbers a view looks at: every owned account, or just the selected one.
+export function getAccountScope(accounts: BankAccount[], selectedAccount: string): Set<string> {
+  if (selectedAccount === ALL_ACCOUNTS) return new Set(accounts.map(account => account.number));
+  return new Set([selectedAccount]);
+}
+
+export function involvesScope(tx: Transaction, scope: Set<string>): boolean {
+  return scope.has(tx.from.number) || scope.has(tx.to.number);
+}
+
+// Direction is decided by account number, never by user id: a transfer between two of
+// the user's own accounts is `internal`, not income.
+export function getTransactionDirection(tx: Transaction, ownAccounts: Set<string>, scope: Set<string>): TransactionDirection {
+  if (ownAccounts.has(tx.from.number) && ownAccounts.has(tx.to.number)) return 'internal';
+  return scope.has(tx.to.number) ? 'incoming' : 'outgoing';
+}
+
+// Effect of a transaction on the combined balance of the accounts in scope. Transfers
+// that stay inside the scope cancel out; an internal transfer out of the single selected
+// account still lowers that account's balance.
+export function getSignedAmount(tx: Transaction, scope: Set<string>): number {
+  const amount = Math.abs(tx.amount);
+  const fromInScope = scope.has(tx.from.number);
+  const toInScope = scope.has(tx.to.number);
+  if (fromInScope === toInScope) return 0;
+  return toInScope ? amount : -amount;
+}
+
+// The other side of the transaction from the point of view of the scope.
+export function getCounterparty(tx: Transaction, scope: Set<string>) {
+  return scope.has(tx.to.number) && !scope.has(tx.from.number) ? tx.from : tx.to;
+}
+
+// Partners are told apart by the owner's user id, so two people with the same name stay
+// separate and one person's accounts stay together. The account number stands in when
+// an export has no user ids.
+export function getPartnerId({ number, user }: { number: string; user: AccountOwner }): string {
+  return user.id || number;
+}
+
+export function getScopeBalance(accounts: BankAccount[], scope: Set<string>): number {
+  return accounts
+    .filter(account => scope.has(account.number))
+    .reduce((sum, account) => sum + account.balance, 0);
+}
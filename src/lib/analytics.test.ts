@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+
+import { computeRunningBalance, computeTransactionCounts, computeVolume } from './analytics';
+import type { Transaction } from './czechibank';
+
+const OWN = 'OWN-1';
+const context = { ownAccounts: new Set([OWN]), scope: new Set([OWN]) };
+
+let nextId = 0;
+// Positive amounts come in, negative ones go out; dates are local noon
+function tx(date: string, amount: number): Transaction {
+  const own = { number: OWN, user: { id: 'u1', name: 'Me' } };
+  const partner = { number: 'P-1', user: { id: 'u2', name: 'Partner' } };
+  return {
+    id: String(++nextId),
+    amount: Math.abs(amount),
+    createdAt: `${date}T12:00:00`,
+    currency: 'CZK',
+    from: amount > 0 ? partner : own,
+    to: amount > 0 ? own : partner,
+  };
+}
+
+const noon = (date: string) => new Date(`${date}T12:00:00`);
+
+describe('computeVolume', () => {
+  it('keeps January 2025 and January 2026 apart', () => {
+    const volume = computeVolume([tx('2025-01-10', 100), tx('2026-01-10', 50)], context, 'month');
+    expect(volume[0]).toEqual({ period: '2025-01', incoming: 100, outgoing: 0 });
+    expect(volume[volume.length - 1]).toEqual({ period: '2026-01', incoming: 50, outgoing: 0 });
+    expect(volume).toHaveLength(13);
+  });
+
+  it('fills empty periods with zero', () => {
+    const volume = computeVolume([tx('2025-01-10', 100), tx('2025-04-02', -30)], context, 'month');
+    expect(volume).toEqual([
+      { period: '2025-01', incoming: 100, outgoing: 0 },
+      { period: '2025-02', incoming: 0, outgoing: 0 },
+      { period: '2025-03', incoming: 0, outgoing: 0 },
+      { period: '2025-04', incoming: 0, outgoing: -30 },
+    ]);
+  });
+
+  it('fills up to the bounds of the selected range', () => {
+    const volume = computeVolume([tx('2025-02-10', 100)], context, 'month', { start: noon('2025-01-01'), end: noon('2025-03-31') });
+    expect(volume.map(point => point.period)).toEqual(['2025-01', '2025-02', '2025-03']);
+  });
+
+  it('buckets week 53 and the year rollover', () => {
+    const volume = computeVolume([tx('2020-12-30', 10), tx('2021-01-05', 20)], context, 'week');
+    expect(volume).toEqual([
+      { period: '2020-W53', incoming: 10, outgoing: 0 },
+      { period: '2021-W01', incoming: 20, outgoing: 0 },
+    ]);
+  });
+});
+
+describe('computeTransactionCounts', () => {
+  it('zero-fills the days without transactions', () => {
+    const counts = computeTransactionCounts([tx('2025-12-30', 1), tx('2025-12-30', 2), tx('2026-01-02', 3)], 'day');
+    expect(counts).toEqual([
+      { period: '2025-12-30', count: 2 },
+      { period: '2025-12-31', count: 0 },
+      { period: '2026-01-01', count: 0 },
+      { period: '2026-01-02', count: 1 },
+    ]);
+  });
+
+  it('falls back to the non-empty periods when there are too many to fill', () => {
+    const counts = computeTransactionCounts([tx('2000-01-01', 1), tx('2030-01-01', 1)], 'day');
+    expect(counts).toEqual([
+      { period: '2000-01-01', count: 1 },
+      { period: '2030-01-01', count: 1 },
+    ]);
+  });
+});
+
+describe('computeRunningBalance', () => {
+  it('rewinds from the closing balance', () => {
+    const points = computeRunningBalance([tx('2025-01-10', 100), tx('2025-03-05', -40)], context, 1000, 'month');
+    expect(points).toEqual([
+      { period: '2025-01', incoming: 100, outgoing: 0, balance: 1040 },
+      { period: '2025-02', incoming: 0, outgoing: 0, balance: 1040 },
+      { period: '2025-03', incoming: 0, outgoing: -40, balance: 1000 },
+    ]);
+  });
+});
+
+describe('inputs', () => {
+  it('are not mutated', () => {
+    const transactions = [tx('2025-03-05', -40), tx('2025-01-10', 100)];
+    const snapshot = structuredClone(transactions);
+    const bounds = { start: noon('2024-12-01'), end: noon('2025-04-30') };
+    const boundsSnapshot = structuredClone(bounds);
+
+    computeVolume(transactions, context, 'month', bounds);
+    computeTransactionCounts(transactions, 'week', bounds);
+    computeRunningBalance(transactions, context, 500, 'day', bounds);
+
+    expect(transactions).toEqual(snapshot);
+    expect(bounds).toEqual(boundsSnapshot);
+    expect(context.scope).toEqual(new Set([OWN]));
+  });
+});
@@ -0,0 +1,197 @@
+import { getCounterparty, getPartnerId, getSignedAmount, getTransactionDirection, type AccountContext, type TransactionDirection } from './accounts';
+import type { Transaction } from './czechibank';
+import { enumerateBuckets, toBucketKey, type Granularity } from './time-buckets';
+
+// Pure aggregations over Transaction[] behind every chart and stat card. Inputs are
+// never mutated. Time series are bucketed with ./time-buckets, so January 2025 and
+// January 2026 stay apart and empty periods show up as zero instead of being skipped.
+
+export interface BalancePoint {
+  period: string;
+  balance: number;
+}
+
+export interface VolumePoint {
+  period: string;
+  incoming: number;
+  // Negative, so it can be drawn below the axis.
+  outgoing: number;
+}
+
+export type TransactionTypeTotals = Record<TransactionDirection, number>;
+
+export interface TransactionStats {
+  totalTransactions: number;
+  totalVolume: number;
+  averageAmount: number;
+  largestTransaction: number;
+  smallestTransaction: number;
+}
+
+export interface PartnerVolume {
+  // See getPartnerId.
+  id: string;
+  name: string;
+  // The partner's account numbers seen in the transactions.
+  accounts: string[];
+  incoming: number;
+  outgoing: number;
+  total: number;
+  count: number;
+}
+
+export interface CountPoint {
+  period: string;
+  count: number;
+}
+
+export interface RunningBalancePoint extends VolumePoint {
+  // Balance at the end of the period, after all of its transactions.
+  balance: number;
+}
+
+// Optional bounds (usually the selected date range) that empty buckets are filled up to.
+export interface BucketBounds {
+  start: Date | null;
+  end: Date | null;
+}
+
+const NO_BOUNDS: BucketBounds = { start: null, end: null };
+
+export function toDayKey(value: string | Date): string {
+  return toBucketKey(value, 'day');
+}
+
+function fillBuckets<T>(buckets: Map<string, T>, granularity: Granularity, bounds: BucketBounds, empty: (period: string) => T): T[] {
+  const keys = [...buckets.keys()].sort();
+  const first = [keys[0], bounds.start && toBucketKey(bounds.start, granularity)].filter(Boolean).sort()[0];
+  const last = [keys[keys.length - 1], bounds.end && toBucketKey(bounds.end, granularity)].filter(Boolean).sort().pop();
+  if (!first || !last) return [];
+  const periods = enumerateBuckets(first, last, granularity);
+  // Too many periods to fill (e.g. days over decades): fall back to the non-empty ones
+  if (periods[periods.length - 1] !== last) return keys.map(period => buckets.get(period)!);
+  return periods.map(period => buckets.get(period) ?? empty(period));
+}
+
+function groupVolume(transactions: Transaction[], scope: Set<string>, granularity: Granularity): Map<string, VolumePoint> {
+  const buckets = new Map<string, VolumePoint>();
+  transactions.forEach(tx => {
+    const period = toBucketKey(tx.createdAt, granularity);
+    const entry = buckets.get(period) ?? { period, incoming: 0, outgoing: 0 };
+    const signedAmount = getSignedAmount(tx, scope);
+    if (signedAmount > 0) {
+      entry.incoming += signedAmount;
+    } else {
+      entry.outgoing += signedAmount;
+    }
+    buckets.set(period, entry);
+  });
+  return buckets;
+}
+
+// Cumulative net flow from zero at the end of each period; quiet periods keep the
+// previous value.
+export function computeBalanceData(transactions: Transaction[], { scope }: AccountContext, granularity: Granularity = 'day', bounds = NO_BOUNDS): BalancePoint[] {
+  let balance = 0;
+  return fillBuckets(groupVolume(transactions, scope, granularity), granularity, bounds, period => ({ period, incoming: 0, outgoing: 0 }))
+    .map(({ period, incoming, outgoing }) => {
+      balance += incoming + outgoing;
+      return { period, balance };
+    });
+}
+
+export function computeVolume(transactions: Transaction[], { scope }: AccountContext, granularity: Granularity = 'month', bounds = NO_BOUNDS): VolumePoint[] {
+  return fillBuckets(groupVolume(transactions, scope, granularity), granularity, bounds, period => ({ period, incoming: 0, outgoing: 0 }));
+}
+
+export function computeTransactionTypes(transactions: Transaction[], { ownAccounts, scope }: AccountContext): TransactionTypeTotals {
+  return transactions.reduce((acc, tx) => {
+    acc[getTransactionDirection(tx, ownAccounts, scope)] += Math.abs(tx.amount);
+    return acc;
+  }, { incoming: 0, outgoing: 0, internal: 0 });
+}
+
+export function computeTransactionStats(transactions: Transaction[]): TransactionStats {
+  const amounts = transactions.map(tx => Math.abs(tx.amount));
+  const totalVolume = amounts.reduce((sum, amount) => sum + amount, 0);
+
+  return {
+    totalTransactions: transactions.length,
+    totalVolume,
+    averageAmount: amounts.length > 0 ? Math.round(totalVolume / amounts.length) : 0,
+    // reduce instead of Math.max(...amounts), which overflows the stack on long histories
+    largestTransaction: amounts.reduce((max, amount) => Math.max(max, amount), amounts.length > 0 ? -Infinity : 0),
+    smallestTransaction: amounts.reduce((min, amount) => Math.min(min, amount), amounts.length > 0 ? Infinity : 0),
+  };
+}
+
+// Moving money between own accounts is not a partner relationship, so internal
+// transfers are left out.
+export function computeTopPartners(transactions: Transaction[], { ownAccounts, scope }: AccountContext, limit = 5): PartnerVolume[] {
+  const partners = new Map<string, PartnerVolume>();
+
+  transactions.forEach(tx => {
+    if (getTransactionDirection(tx, ownAccounts, scope) === 'internal') return;
+    const counterparty = getCounterparty(tx, scope);
+    const id = getPartnerId(counterparty);
+    const entry = partners.get(id) ?? { id, name: counterparty.user.name, accounts: [], incoming: 0, outgoing: 0, total: 0, count: 0 };
+    if (!entry.accounts.includes(counterparty.number)) entry.accounts.push(counterparty.number);
+    const amount = Math.abs(tx.amount);
+    if (getSignedAmount(tx, scope) > 0) {
+      entry.incoming += amount;
+    } else {
+      entry.outgoing += amount;
+    }
+    entry.total += amount;
+    entry.count++;
+    partners.set(id, entry);
+  });
+
+  return [...partners.values()].sort((a, b) => b.total - a.total).slice(0, limit);
+}
+
+// Everything exchanged with one partner (see getPartnerId), internal transfers excluded
+// like in computeTopPartners.
+export function getPartnerTransactions(transactions: Transaction[], partnerId: string, { ownAccounts, scope }: AccountContext): Transaction[] {
+  return transactions.filter(tx =>
+    getTransactionDirection(tx, ownAccounts, scope) !== 'internal'
+    && getSignedAmount(tx, scope) !== 0
+    && getPartnerId(getCounterparty(tx, scope)) === partnerId);
+}
+
+export function computeTransactionCounts(transactions: Transaction[], granularity: Granularity = 'day', bounds = NO_BOUNDS): CountPoint[] {
+  const buckets = new Map<string, CountPoint>();
+  transactions.forEach(tx => {
+    const period = toBucketKey(tx.createdAt, granularity);
+    const entry = buckets.get(period) ?? { period, count: 0 };
+    entry.count++;
+    buckets.set(period, entry);
+  });
+  return fillBuckets(buckets, granularity, bounds, period => ({ period, count: 0 }));
+}
+
+// Balance of the scope right after the last of `transactions`, given the balance today
+// and everything that happened since (`laterTransactions`).
+export function computeClosingBalance(currentBalance: number, laterTransactions: Transaction[], { scope }: AccountContext): number {
+  return laterTransactions.reduce((balance, tx) => balance - getSignedAmount(tx, scope), currentBalance);
+}
+
+// Walks backwards from the closing balance, so the newest period ends exactly at
+// `closingBalance` and each earlier period ends where the following one started.
+export function computeRunningBalance(
+  transactions: Transaction[],
+  { scope }: AccountContext,
+  closingBalance: number,
+  granularity: Granularity = 'day',
+  bounds = NO_BOUNDS,
+): RunningBalancePoint[] {
+  const points: RunningBalancePoint[] = fillBuckets(groupVolume(transactions, scope, granularity), granularity, bounds, period => ({ period, incoming: 0, outgoing: 0 }))
+    .map(point => ({ ...point, balance: 0 }));
+
+  let balance = closingBalance;
+  for (let i = points.length - 1; i >= 0; i--) {
+    points[i].balance = balance;
+    balance -= points[i].incoming + points[i].outgoing;
+  }
+  return points;
+}
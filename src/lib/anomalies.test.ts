@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import { countAnomaliesByPeriod, detectAnomalies } from './anomalies';
+import type { Transaction } from './czechibank';
+
+const me = { number: 'OWN-1', user: { id: 'u1', name: 'Me' } };
+const savings = { number: 'OWN-2', user: me.user };
+const context = { ownAccounts: new Set([me.number, savings.number]), scope: new Set([me.number, savings.number]) };
+
+let nextId = 0;
+// Payments out of the own account; `at` is a local `YYYY-MM-DDTHH:mm`
+const sent = (at: string, amount: number, partner = 'P-1'): Transaction => ({
+  id: String(++nextId),
+  amount,
+  createdAt: `${at}:00`,
+  currency: 'CZK',
+  from: me,
+  to: { number: partner, user: { id: partner, name: `Partner ${partner}` } },
+});
+
+const daily = (amounts: number[], partner?: string, hour = '12') =>
+  amounts.map((amount, index) => sent(`2025-01-${String(index + 1).padStart(2, '0')}T${hour}:00`, amount, partner));
+
+const reasonTypes = (anomalies: ReturnType<typeof detectAnomalies>, tx: Transaction) =>
+  anomalies.get(tx.id)?.reasons.map(reason => reason.type) ?? [];
+
+describe('detectAnomalies', () => {
+  it('flags an amount far from what the partner usually gets', () => {
+    const usual = daily([100, 105, 95, 110, 98]);
+    const outlier = sent('2025-01-06T12:00', 900);
+    const anomalies = detectAnomalies([...usual, outlier], context);
+    expect(anomalies.get(outlier.id)?.reasons).toEqual([{ type: 'partnerAmount', typical: 102.5, currency: 'CZK' }]);
+    expect(usual.every(tx => !anomalies.has(tx.id))).toBe(true);
+  });
+
+  it('does not flag an amount that keeps coming back', () => {
+    const history = [...daily([100, 100, 100, 100, 100, 100]), ...daily([500, 500, 500]).map(tx => ({ ...tx, id: `${tx.id}b` }))];
+    expect(detectAnomalies(history, context).size).toBe(0);
+  });
+
+  it('flags a transaction at an hour that is otherwise empty', () => {
+    const history = Array.from({ length: 60 }, (_, index) =>
+      sent(`2025-0${1 + Math.floor(index / 28)}-${String((index % 28) + 1).padStart(2, '0')}T12:00`, 100));
+    const night = sent('2025-03-01T03:00', 100);
+    const anomalies = detectAnomalies([...history, night], context);
+    expect(anomalies.get(night.id)?.reasons).toEqual([{ type: 'unusualTime', hour: 3 }]);
+  });
+
+  it('flags a new counterparty only after the first month of history', () => {
+    const first = sent('2025-01-01T12:00', 100, 'P-1');
+    const early = sent('2025-01-20T12:00', 100, 'P-2');
+    const late = sent('2025-03-01T12:00', 100, 'P-3');
+    const anomalies = detectAnomalies([first, early, late], context);
+    expect(reasonTypes(anomalies, early)).toEqual([]);
+    expect(anomalies.get(late.id)?.reasons).toEqual([{ type: 'newCounterparty', name: 'Partner P-3' }]);
+  });
+
+  it('ignores transfers between own accounts', () => {
+    const history = daily([100, 105, 95, 110, 98]);
+    const transfer: Transaction = { ...sent('2025-03-01T03:00', 90000), to: savings };
+    expect(detectAnomalies([...history, transfer], context).has(transfer.id)).toBe(false);
+  });
+});
+
+describe('countAnomaliesByPeriod', () => {
+  it('counts the flagged transactions of each period', () => {
+    const usual = daily([100, 105, 95, 110, 98]);
+    const outlier = sent('2025-02-06T12:00', 900);
+    const all = [...usual, outlier];
+    expect(countAnomaliesByPeriod(all, detectAnomalies(all, context), 'month')).toEqual(new Map([['2025-02', 1]]));
+  });
+});
@@ -0,0 +1,113 @@
+import { getCounterparty, getSignedAmount, getTransactionDirection, type AccountContext } from './accounts';
+import type { Transaction } from './czechibank';
+import { DAY, groupBy, median } from './stats';
+import { toBucketKey, type Granularity } from './time-buckets';
+
+// Flags transactions that stand out from the user's own history. Amounts are compared
+// with a robust z-score (distance from the median in MADs), so a few big payments don't
+// hide each other the way they would with a mean and standard deviation. Amounts are
+// only compared within the same direction and currency, and an amount that keeps
+// coming back (rent, salary) is a pattern rather than an outlier.
+
+export type AnomalyReason =
+  // Far from what this partner usually sends or receives.
+  | { type: 'partnerAmount'; typical: number; currency: string }
+  // Far from the whole history in the same direction and currency.
+  | { type: 'overallAmount'; typical: number; currency: string }
+  // At an hour of the day when the user almost never has transactions.
+  | { type: 'unusualTime'; hour: number }
+  | { type: 'newCounterparty'; name: string };
+
+export interface Anomaly {
+  transactionId: string;
+  reasons: AnomalyReason[];
+}
+
+// Robust z-score above which an amount counts as an outlier.
+const Z_THRESHOLD = 3.5;
+// MAD of a normal distribution is this fraction of its standard deviation.
+const MAD_SCALE = 1.4826;
+const MIN_PARTNER_HISTORY = 5;
+const MIN_OVERALL_HISTORY = 20;
+// Amounts within this share of each other count as the same amount...
+const SIMILAR_AMOUNT = 0.1;
+// ...and once it occurred this many times, it is no longer unusual.
+const MIN_REPEATS = 3;
+// Hours (together with their neighbours) that hold less than this share of transactions.
+const RARE_HOUR_SHARE = 0.02;
+const MIN_TIME_HISTORY = 50;
+// Everyone is new at the start of the history, so first payments in this window aren't flagged.
+const NEW_COUNTERPARTY_WARMUP_DAYS = 30;
+
+// Returns a predicate telling whether an amount is an outlier in `amounts`, and the
+// median it was compared with. A MAD of zero (all payments equal) falls back to a share
+// of the median, so the first different amount still stands out.
+function outlierTest(amounts: number[]) {
+  const typical = median(amounts);
+  const spread = median(amounts.map(amount => Math.abs(amount - typical))) * MAD_SCALE || typical * SIMILAR_AMOUNT;
+  const repeats = (amount: number) => amounts.filter(other => Math.abs(other - amount) <= amount * SIMILAR_AMOUNT).length;
+  return {
+    typical: Math.round(typical * 100) / 100,
+    isOutlier: (amount: number) => spread > 0 && Math.abs(amount - typical) / spread > Z_THRESHOLD && repeats(amount) < MIN_REPEATS,
+  };
+}
+
+// Transaction id -> anomaly, for transactions with at least one reason. Internal
+// transfers are left out; moving money between own accounts is never suspicious.
+export function detectAnomalies(transactions: Transaction[], { ownAccounts, scope }: AccountContext): Map<string, Anomaly> {
+  const external = transactions.filter(tx =>
+    getSignedAmount(tx, scope) !== 0 && getTransactionDirection(tx, ownAccounts, scope) !== 'internal');
+  const reasons = new Map<string, AnomalyReason[]>();
+  const flag = (tx: Transaction, reason: AnomalyReason) => reasons.set(tx.id, [...(reasons.get(tx.id) ?? []), reason]);
+  const direction = (tx: Transaction) => (getSignedAmount(tx, scope) > 0 ? 'in' : 'out');
+
+  groupBy(external, tx => `${getCounterparty(tx, scope).number}|${direction(tx)}|${tx.currency}`).forEach(group => {
+    if (group.length < MIN_PARTNER_HISTORY) return;
+    const { typical, isOutlier } = outlierTest(group.map(tx => Math.abs(tx.amount)));
+    group.filter(tx => isOutlier(Math.abs(tx.amount))).forEach(tx => flag(tx, { type: 'partnerAmount', typical, currency: tx.currency }));
+  });
+
+  groupBy(external, tx => `${direction(tx)}|${tx.currency}`).forEach(group => {
+    if (group.length < MIN_OVERALL_HISTORY) return;
+    const { typical, isOutlier } = outlierTest(group.map(tx => Math.abs(tx.amount)));
+    // Only unusually large amounts; small payments are rarely worth a second look
+    group
+      .filter(tx => Math.abs(tx.amount) > typical && isOutlier(Math.abs(tx.amount)))
+      .forEach(tx => flag(tx, { type: 'overallAmount', typical, currency: tx.currency }));
+  });
+
+  if (external.length >= MIN_TIME_HISTORY) {
+    const hours = new Array<number>(24).fill(0);
+    external.forEach(tx => hours[new Date(tx.createdAt).getHours()]++);
+    external.forEach(tx => {
+      const hour = new Date(tx.createdAt).getHours();
+      const nearby = hours[(hour + 23) % 24] + hours[hour] + hours[(hour + 1) % 24];
+      if (nearby / external.length < RARE_HOUR_SHARE) flag(tx, { type: 'unusualTime', hour });
+    });
+  }
+
+  const chronological = [...external].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  if (chronological.length > 0) {
+    const warmupEnd = new Date(chronological[0].createdAt).getTime() + NEW_COUNTERPARTY_WARMUP_DAYS * DAY;
+    const seen = new Set<string>();
+    chronological.forEach(tx => {
+      const counterparty = getCounterparty(tx, scope);
+      if (seen.has(counterparty.number)) return;
+      seen.add(counterparty.number);
+      if (new Date(tx.createdAt).getTime() > warmupEnd) flag(tx, { type: 'newCounterparty', name: counterparty.user.name });
+    });
+  }
+
+  return new Map([...reasons].map(([transactionId, list]) => [transactionId, { transactionId, reasons: list }]));
+}
+
+// Period -> number of anomalies in it, for marking the points of a time series.
+export function countAnomaliesByPeriod(transactions: Transaction[], anomalies: Map<string, Anomaly>, granularity: Granularity): Map<string, number> {
+  const counts = new Map<string, number>();
+  transactions.forEach(tx => {
+    if (!anomalies.has(tx.id)) return;
+    const period = toBucketKey(tx.createdAt, granularity);
+    counts.set(period, (counts.get(period) ?? 0) + 1);
+  });
+  return counts;
+}
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { evaluateBudgets, getBudgetFlags, loadBudgets, type Budget } from './budgets';
+import { DEFAULT_CATEGORY_SETTINGS } from './categories';
+import type { Transaction } from './czechibank';
+
+const me = { number: 'OWN-1', user: { id: 'u1', name: 'Me' } };
+const context = { ownAccounts: new Set([me.number]), scope: new Set([me.number]) };
+const janNovak = { number: 'P-1', user: { id: 'novak-1', name: 'Jan Novák' } };
+const otherJanNovak = { number: 'P-2', user: { id: 'novak-2', name: 'Jan Novák' } };
+
+let nextId = 0;
+// Payments out of the own account, at local noon
+const sent = (date: string, amount: number, to = janNovak, currency = 'CZK'): Transaction =>
+  ({ id: String(++nextId), amount, createdAt: `${date}T12:00:00`, currency, from: me, to });
+
+const partnerBudget: Budget = { id: 'b1', target: 'partner', name: 'Jan Novák', partnerId: 'novak-1', limit: 1000, currency: 'CZK' };
+const options = { month: '2025-03', categories: DEFAULT_CATEGORY_SETTINGS, context, rates: [], now: new Date(2025, 3, 10, 12) };
+
+describe('evaluateBudgets', () => {
+  it('keeps partners with the same name apart', () => {
+    const mine = sent('2025-03-05', 400);
+    const [status] = evaluateBudgets([partnerBudget], [mine, sent('2025-03-06', 700, otherJanNovak)], options);
+    expect(status).toMatchObject({ spent: 400, remaining: 600, state: 'ok', transactionIds: [mine.id] });
+  });
+
+  it('only counts the selected month and converts into the budget currency', () => {
+    const rates = [{ currency: 'EUR', rate: 25, validFrom: '2025-01-01' }, { currency: 'CZK', rate: 1, validFrom: '2025-01-01' }];
+    const transactions = [sent('2025-02-28', 900), sent('2025-03-02', 500), sent('2025-03-20', 30, janNovak, 'EUR')];
+    const [status] = evaluateBudgets([partnerBudget], transactions, { ...options, rates });
+    expect(status).toMatchObject({ spent: 1250, remaining: -250, state: 'exceeded' });
+  });
+
+  it('projects the current month and flags budgets on pace to be exceeded', () => {
+    const transactions = [sent('2025-03-02', 300), sent('2025-03-05', 250)];
+    const [status] = evaluateBudgets([partnerBudget], transactions, { ...options, now: new Date(2025, 2, 11, 0) });
+    expect(status.projected).toBe(1705);
+    expect(status.state).toBe('atRisk');
+    expect([...getBudgetFlags([status]).keys()]).toEqual(status.transactionIds);
+  });
+});
+
+describe('loadBudgets', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('drops partner budgets without a partner id', () => {
+    const stored = [partnerBudget, { ...partnerBudget, id: 'b2', partnerId: undefined }, { id: 'b3', target: 'category', name: 'Housing', limit: 5, currency: 'CZK' }];
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(stored) });
+    expect(loadBudgets().map(budget => budget.id)).toEqual(['b1', 'b3']);
+  });
+});
@@ -0,0 +1,117 @@
+import { getCounterparty, getPartnerId, getSignedAmount, type AccountContext } from './accounts';
+import { categorizeTransaction, type CategorySettings } from './categories';
+import type { Transaction } from './czechibank';
+import { applyCurrencyView, roundAmount, type ExchangeRate } from './currency';
+import { toBucketKey } from './time-buckets';
+
+// Monthly spending limits per category or partner. Spending is the outgoing side of
+// getSignedAmount, the same as the "Sent" bars of the volume chart, converted into the
+// budget's currency.
+
+interface BudgetFields {
+  id: string;
+  // Category name, or the partner's name, which for partners is only the label.
+  name: string;
+  // Per calendar month.
+  limit: number;
+  currency: string;
+}
+
+// Partner budgets match on the partner id (see getPartnerId), so two people with the same
+// name keep separate budgets.
+export type Budget = BudgetFields & ({ target: 'category' } | { target: 'partner'; partnerId: string });
+
+export type BudgetTarget = Budget['target'];
+
+// exceeded: spent more than the limit. atRisk: under it, but on pace to pass it by the
+// end of the month.
+export type BudgetState = 'ok' | 'atRisk' | 'exceeded';
+
+export interface BudgetStatus {
+  budget: Budget;
+  spent: number;
+  remaining: number;
+  // Linear extrapolation to the end of the month; equals `spent` for past months.
+  projected: number;
+  state: BudgetState;
+  // Outgoing transactions that count towards the budget.
+  transactionIds: string[];
+}
+
+export interface BudgetEvaluationOptions {
+  // `YYYY-MM`.
+  month: string;
+  categories: CategorySettings;
+  context: AccountContext;
+  rates: ExchangeRate[];
+  now?: Date;
+}
+
+function monthProgress(month: string, now: Date): number {
+  const current = toBucketKey(now, 'month');
+  if (month < current) return 1;
+  if (month > current) return 0;
+  const daysInMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
+  return (now.getDate() - 1 + (now.getHours() * 60 + now.getMinutes()) / 1440) / daysInMonth;
+}
+
+export function evaluateBudgets(budgets: Budget[], transactions: Transaction[], { month, categories, context, rates, now = new Date() }: BudgetEvaluationOptions): BudgetStatus[] {
+  const inMonth = transactions.filter(tx => toBucketKey(tx.createdAt, 'month') === month);
+  const progress = monthProgress(month, now);
+
+  return budgets.map(budget => {
+    const { transactions: converted } = applyCurrencyView(inMonth, { mode: 'converted', currency: budget.currency }, rates);
+    const matching = converted.filter(tx => getSignedAmount(tx, context.scope) < 0 && (budget.target === 'category'
+      ? categorizeTransaction(tx, categories, context) === budget.name
+      : getPartnerId(getCounterparty(tx, context.scope)) === budget.partnerId));
+
+    const spent = roundAmount(matching.reduce((sum, tx) => sum - getSignedAmount(tx, context.scope), 0));
+    // At least a day has passed as far as the pace goes, or the first payment of a month
+    // would project to an absurd total
+    const projected = progress >= 1 ? spent : roundAmount(spent / Math.max(progress, 1 / 31));
+    const state: BudgetState = spent > budget.limit ? 'exceeded' : projected > budget.limit ? 'atRisk' : 'ok';
+
+    return {
+      budget,
+      spent,
+      remaining: roundAmount(budget.limit - spent),
+      projected,
+      state,
+      transactionIds: matching.map(tx => tx.id),
+    };
+  });
+}
+
+// Transaction id -> the worst status among the budgets it counts towards, for flagging
+// rows; budgets that are fine are left out.
+export function getBudgetFlags(statuses: BudgetStatus[]): Map<string, BudgetStatus> {
+  const flags = new Map<string, BudgetStatus>();
+  statuses
+    .filter(status => status.state !== 'ok')
+    .sort((a, b) => (a.state === 'exceeded' ? 1 : 0) - (b.state === 'exceeded' ? 1 : 0))
+    .forEach(status => status.transactionIds.forEach(id => flags.set(id, status)));
+  return flags;
+}
+
+const BUDGETS_STORAGE_KEY = 'czechibank_budgets';
+
+export function loadBudgets(): Budget[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BUDGETS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.filter((entry): entry is Budget =>
+        typeof entry?.id === 'string'
+        && (entry.target === 'category' || entry.target === 'partner')
+        && typeof entry.name === 'string'
+        && (entry.target === 'category' || typeof entry.partnerId === 'string')
+        && typeof entry.limit === 'number'
+        && typeof entry.currency === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveBudgets(budgets: Budget[]) {
+  localStorage.setItem(BUDGETS_STORAGE_KEY, JSON.stringify(budgets));
+}
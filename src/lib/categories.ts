@@ -0,0 +1,133 @@
+import { getCounterparty, getSignedAmount, getTransactionDirection, type AccountContext, type TransactionDirection } from './accounts';
+import type { Transaction } from './czechibank';
+import type { MessageKey } from './messages/en';
+
+// User-defined categories. A manual override for a transaction id wins; otherwise the
+// first rule (in list order) whose conditions all hold assigns the category. Conditions
+// left empty are ignored, so a rule without any is a catch-all.
+
+export const UNCATEGORIZED = 'Uncategorized';
+
+export const DEFAULT_CATEGORIES = ['Salary', 'Housing', 'Groceries', 'Subscriptions', 'Savings', 'Transfers', 'Other'];
+
+// The built-in categories are stored under the English names above, so saved rules and
+// overrides survive a language switch; only their display name is translated.
+const CATEGORY_MESSAGES: Record<string, MessageKey> = {
+  [UNCATEGORIZED]: 'categories.uncategorized',
+  Salary: 'categories.salary',
+  Housing: 'categories.housing',
+  Groceries: 'categories.groceries',
+  Subscriptions: 'categories.subscriptions',
+  Savings: 'categories.savings',
+  Transfers: 'categories.transfers',
+  Other: 'categories.other',
+};
+
+export const getCategoryMessage = (category: string): MessageKey | undefined =>
+  Object.hasOwn(CATEGORY_MESSAGES, category) ? CATEGORY_MESSAGES[category] : undefined;
+
+export interface CategoryRule {
+  id: string;
+  category: string;
+  // Case-insensitive substring of the counterparty's name.
+  partnerName?: string;
+  // Exact counterparty account number.
+  partnerAccount?: string;
+  // Bounds on the absolute amount, inclusive.
+  minAmount?: number;
+  maxAmount?: number;
+  direction?: TransactionDirection;
+}
+
+export interface CategorySettings {
+  categories: string[];
+  rules: CategoryRule[];
+  // Transaction id -> category, set by hand in the transactions table.
+  overrides: Record<string, string>;
+}
+
+export const DEFAULT_CATEGORY_SETTINGS: CategorySettings = {
+  categories: DEFAULT_CATEGORIES,
+  rules: [],
+  overrides: {},
+};
+
+export interface CategoryTotal {
+  category: string;
+  incoming: number;
+  // Positive amount sent, so it can be drawn next to `incoming`.
+  outgoing: number;
+  count: number;
+}
+
+export function matchesRule(tx: Transaction, rule: CategoryRule, { ownAccounts, scope }: AccountContext): boolean {
+  const counterparty = getCounterparty(tx, scope);
+  const amount = Math.abs(tx.amount);
+  const partnerName = rule.partnerName?.trim().toLowerCase();
+  if (partnerName && !counterparty.user.name.toLowerCase().includes(partnerName)) return false;
+  if (rule.partnerAccount?.trim() && counterparty.number !== rule.partnerAccount.trim()) return false;
+  if (rule.minAmount !== undefined && amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && amount > rule.maxAmount) return false;
+  if (rule.direction && getTransactionDirection(tx, ownAccounts, scope) !== rule.direction) return false;
+  return true;
+}
+
+export function categorizeTransaction(tx: Transaction, settings: CategorySettings, context: AccountContext): string {
+  return settings.overrides[tx.id]
+    ?? settings.rules.find(rule => matchesRule(tx, rule, context))?.category
+    ?? UNCATEGORIZED;
+}
+
+// Transaction id -> category, for looking up categories of converted copies as well.
+export function categorizeTransactions(transactions: Transaction[], settings: CategorySettings, context: AccountContext): Map<string, string> {
+  return new Map(transactions.map(tx => [tx.id, categorizeTransaction(tx, settings, context)]));
+}
+
+export function computeCategoryTotals(transactions: Transaction[], categories: Map<string, string>, { scope }: AccountContext): CategoryTotal[] {
+  const totals = new Map<string, CategoryTotal>();
+  transactions.forEach(tx => {
+    const category = categories.get(tx.id) ?? UNCATEGORIZED;
+    const entry = totals.get(category) ?? { category, incoming: 0, outgoing: 0, count: 0 };
+    const signedAmount = getSignedAmount(tx, scope);
+    if (signedAmount > 0) entry.incoming += signedAmount;
+    if (signedAmount < 0) entry.outgoing -= signedAmount;
+    entry.count++;
+    totals.set(category, entry);
+  });
+  return [...totals.values()].sort((a, b) => (b.incoming + b.outgoing) - (a.incoming + a.outgoing));
+}
+
+// Every category that can be picked: the configured list plus any still used by a rule
+// or override after being removed from it.
+export function listCategories(settings: CategorySettings): string[] {
+  return [...new Set([
+    ...settings.categories,
+    ...settings.rules.map(rule => rule.category),
+    ...Object.values(settings.overrides),
+  ])].filter(Boolean);
+}
+
+const CATEGORIES_STORAGE_KEY = 'czechibank_categories';
+
+export function loadCategorySettings(): CategorySettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CATEGORIES_STORAGE_KEY) ?? 'null');
+    if (!stored || typeof stored !== 'object') return DEFAULT_CATEGORY_SETTINGS;
+    return {
+      categories: Array.isArray(stored.categories)
+        ? stored.categories.filter((category: unknown): category is string => typeof category === 'string')
+        : DEFAULT_CATEGORIES,
+      rules: Array.isArray(stored.rules)
+        ? stored.rules.filter((rule: Partial<CategoryRule> | null): rule is CategoryRule =>
+          typeof rule?.id === 'string' && typeof rule?.category === 'string')
+        : [],
+      overrides: stored.overrides && typeof stored.overrides === 'object' ? stored.overrides : {},
+    };
+  } catch {
+    return DEFAULT_CATEGORY_SETTINGS;
+  }
+}
+
+export function saveCategorySettings(settings: CategorySettings) {
+  localStorage.setItem(CATEGORIES_STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import { comparePartners, compareSummaries, computePeriodSummary, getComparisonRange, overlayBalance, percentChange } from './comparison';
+import type { Transaction } from './czechibank';
+import { resolveDateRange, type ResolvedDateRange } from './date-range';
+
+const me = { number: 'OWN-1', user: { id: 'u1', name: 'Me' } };
+const context = { ownAccounts: new Set([me.number]), scope: new Set([me.number]) };
+const now = new Date(2025, 2, 31, 12);
+
+let nextId = 0;
+// Positive amounts come in, negative ones go out
+function tx(amount: number, partner = 'P-1'): Transaction {
+  const other = { number: partner, user: { id: partner, name: partner } };
+  return { id: String(++nextId), amount: Math.abs(amount), createdAt: '2025-03-10T12:00:00', currency: 'CZK', from: amount > 0 ? other : me, to: amount > 0 ? me : other };
+}
+
+const days = (range: ResolvedDateRange | null) =>
+  range && [range.start?.toDateString(), range.end?.toDateString()];
+
+describe('getComparisonRange', () => {
+  it('compares a rolling range with the equally long stretch right before it', () => {
+    const range = { preset: 'last7' as const };
+    const previous = getComparisonRange(range, resolveDateRange(range, now), { mode: 'previous' }, now);
+    expect(days(previous)).toEqual([new Date(2025, 2, 18).toDateString(), new Date(2025, 2, 24).toDateString()]);
+  });
+
+  it('compares this month with the same days of the previous month, clamped to its length', () => {
+    const range = { preset: 'thisMonth' as const };
+    const previous = getComparisonRange(range, resolveDateRange(range, now), { mode: 'previous' }, now);
+    expect(days(previous)).toEqual([new Date(2025, 1, 1).toDateString(), new Date(2025, 1, 28).toDateString()]);
+  });
+
+  it('shifts by a year for the previous-year mode', () => {
+    const range = { preset: 'custom' as const, from: '2024-02-01', to: '2024-02-29' };
+    const previous = getComparisonRange(range, resolveDateRange(range, now), { mode: 'previousYear' }, now);
+    expect(days(previous)).toEqual([new Date(2023, 1, 1).toDateString(), new Date(2023, 1, 28).toDateString()]);
+  });
+
+  it('has nothing to compare with for all time, no comparison or an incomplete custom range', () => {
+    const all = { preset: 'all' as const };
+    expect(getComparisonRange(all, resolveDateRange(all, now), { mode: 'previous' }, now)).toBeNull();
+    const week = { preset: 'last7' as const };
+    expect(getComparisonRange(week, resolveDateRange(week, now), { mode: 'none' }, now)).toBeNull();
+    expect(getComparisonRange(week, resolveDateRange(week, now), { mode: 'custom', from: '2025-01-10' }, now)).toBeNull();
+  });
+});
+
+describe('compareSummaries', () => {
+  it('computes deltas and percent changes, with no change against zero', () => {
+    const current = computePeriodSummary([tx(1000), tx(-300), tx(-200)], context);
+    const previous = computePeriodSummary([tx(-250)], context);
+    expect(current).toEqual({ income: 1000, expense: 500, net: 500, count: 3 });
+    expect(compareSummaries(current, previous)).toEqual([
+      { metric: 'income', current: 1000, previous: 0, delta: 1000, change: null },
+      { metric: 'expense', current: 500, previous: 250, delta: 250, change: 100 },
+      { metric: 'net', current: 500, previous: -250, delta: 750, change: 300 },
+      { metric: 'count', current: 3, previous: 1, delta: 2, change: 200 },
+    ]);
+    expect(percentChange(50, 200)).toBe(-75);
+  });
+});
+
+describe('comparePartners', () => {
+  it('lists the current top partners with their earlier volume', () => {
+    const rows = comparePartners([tx(-400, 'A'), tx(100, 'B')], [tx(-200, 'A'), tx(-900, 'C')], context);
+    expect(rows).toEqual([
+      { id: 'A', name: 'A', current: 400, previous: 200, delta: 200, change: 100 },
+      { id: 'B', name: 'B', current: 100, previous: 0, delta: 100, change: null },
+    ]);
+  });
+});
+
+describe('overlayBalance', () => {
+  it('pairs the buckets by position', () => {
+    const overlay = overlayBalance(
+      [{ period: '2025-03-01', balance: 10 }, { period: '2025-03-02', balance: 20 }],
+      [{ period: '2025-02-01', balance: 5 }],
+    );
+    expect(overlay).toEqual([
+      { period: '2025-03-01', balance: 10, previousPeriod: '2025-02-01', previousBalance: 5 },
+      { period: '2025-03-02', balance: 20 },
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+import { getSignedAmount, type AccountContext } from './accounts';
+import { computeTopPartners, type BalancePoint } from './analytics';
+import type { Transaction } from './czechibank';
+import { endOfDay, parseDay, startOfDay, type DateRange, type ResolvedDateRange } from './date-range';
+
+// Period-over-period comparison: the selected date range next to an earlier one.
+
+export type ComparisonMode = 'none' | 'previous' | 'previousYear' | 'custom';
+
+export interface ComparisonSettings {
+  mode: ComparisonMode;
+  // Inclusive `YYYY-MM-DD` days, only used by the `custom` mode.
+  from?: string;
+  to?: string;
+}
+
+export const DEFAULT_COMPARISON: ComparisonSettings = { mode: 'none' };
+
+export const COMPARISON_MODES: ComparisonMode[] = ['none', 'previous', 'previousYear', 'custom'];
+
+export interface PeriodSummary {
+  income: number;
+  // Positive amount sent.
+  expense: number;
+  net: number;
+  count: number;
+}
+
+export interface MetricComparison {
+  metric: keyof PeriodSummary;
+  current: number;
+  previous: number;
+  delta: number;
+  // Percent change against the previous value; null when that was zero.
+  change: number | null;
+}
+
+export interface PartnerComparison {
+  id: string;
+  name: string;
+  current: number;
+  previous: number;
+  delta: number;
+  change: number | null;
+}
+
+export interface BalanceOverlayPoint extends BalancePoint {
+  // The matching bucket of the comparison period, by position.
+  previousPeriod?: string;
+  previousBalance?: number;
+}
+
+// Moves a date by whole months, clamping the day (31 March minus a month is 28/29 February).
+function shiftMonths(date: Date, months: number): Date {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(date.getDate(), lastDay));
+  target.setHours(date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds());
+  return target;
+}
+
+// The range to compare the selected one with, or null when there is none (comparison
+// off, "All time", or an incomplete custom range). "This month" and "This year" compare
+// with the same days of the previous month or year; other ranges with the equally long
+// stretch of days right before them.
+export function getComparisonRange(
+  range: DateRange,
+  { start, end }: ResolvedDateRange,
+  comparison: ComparisonSettings,
+  now = new Date(),
+): ResolvedDateRange | null {
+  if (comparison.mode === 'custom') {
+    const from = parseDay(comparison.from);
+    const to = parseDay(comparison.to);
+    return from && to && from <= to ? { start: startOfDay(from), end: endOfDay(to) } : null;
+  }
+  if (comparison.mode === 'none' || !start) return null;
+
+  const rangeEnd = end ?? endOfDay(now);
+  if (comparison.mode === 'previousYear') {
+    return { start: shiftMonths(start, -12), end: shiftMonths(rangeEnd, -12) };
+  }
+  if (range.preset === 'thisMonth' || range.preset === 'thisYear') {
+    const months = range.preset === 'thisMonth' ? 1 : 12;
+    return { start: shiftMonths(start, -months), end: shiftMonths(rangeEnd, -months) };
+  }
+
+  // Calendar days rather than milliseconds, so a DST change doesn't shift the range
+  const days = Math.round((startOfDay(rangeEnd).getTime() - startOfDay(start).getTime()) / 86_400_000) + 1;
+  return {
+    start: new Date(start.getFullYear(), start.getMonth(), start.getDate() - days),
+    end: endOfDay(new Date(start.getFullYear(), start.getMonth(), start.getDate() - 1)),
+  };
+}
+
+export function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
+
+export function computePeriodSummary(transactions: Transaction[], { scope }: AccountContext): PeriodSummary {
+  return transactions.reduce((summary, tx) => {
+    const signedAmount = getSignedAmount(tx, scope);
+    if (signedAmount > 0) summary.income += signedAmount;
+    if (signedAmount < 0) summary.expense -= signedAmount;
+    summary.net += signedAmount;
+    summary.count++;
+    return summary;
+  }, { income: 0, expense: 0, net: 0, count: 0 });
+}
+
+const METRICS: (keyof PeriodSummary)[] = ['income', 'expense', 'net', 'count'];
+
+export function compareSummaries(current: PeriodSummary, previous: PeriodSummary): MetricComparison[] {
+  return METRICS.map(metric => ({
+    metric,
+    current: current[metric],
+    previous: previous[metric],
+    delta: current[metric] - previous[metric],
+    change: percentChange(current[metric], previous[metric]),
+  }));
+}
+
+// The current period's top partners by volume, each with its volume in the earlier period.
+export function comparePartners(current: Transaction[], previous: Transaction[], context: AccountContext, limit = 5): PartnerComparison[] {
+  const previousTotals = new Map(computeTopPartners(previous, context, Infinity).map(partner => [partner.id, partner.total]));
+  return computeTopPartners(current, context, limit).map(({ id, name, total }) => {
+    const previousTotal = previousTotals.get(id) ?? 0;
+    return { id, name, current: total, previous: previousTotal, delta: total - previousTotal, change: percentChange(total, previousTotal) };
+  });
+}
+
+// Lines the comparison period up with the current one bucket by bucket, so the two
+// balance curves can share an x axis.
+export function overlayBalance(current: BalancePoint[], previous: BalancePoint[]): BalanceOverlayPoint[] {
+  return current.map((point, index) => previous[index]
+    ? { ...point, previousPeriod: previous[index].period, previousBalance: previous[index].balance }
+    : point);
+}
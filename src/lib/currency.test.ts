@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+
+import type { BankAccount, Transaction } from './czechibank';
+import {
+  applyCurrencyView,
+  computeCurrencyTotals,
+  convertAmount,
+  getRate,
+  getViewBalance,
+  PIVOT_CURRENCY,
+  sumBalancesByCurrency,
+  type ExchangeRate,
+} from './currency';
+
+const me = { number: 'OWN-1', user: { id: 'u1', name: 'Me' } };
+const partner = { number: 'P-1', user: { id: 'u2', name: 'Partner' } };
+const scope = new Set([me.number]);
+
+const rates: ExchangeRate[] = [
+  { currency: 'EUR', rate: 25, validFrom: '2025-01-01' },
+  { currency: 'EUR', rate: 24, validFrom: '2025-03-01' },
+  { currency: 'USD', rate: 20, validFrom: '2025-01-01' },
+];
+
+let nextId = 0;
+// Positive amounts come in, negative ones go out
+function tx(date: string, amount: number, currency: string): Transaction {
+  return { id: String(++nextId), amount: Math.abs(amount), createdAt: `${date}T12:00:00`, currency, from: amount > 0 ? partner : me, to: amount > 0 ? me : partner };
+}
+
+describe('getRate', () => {
+  it('uses the newest rate valid on the day', () => {
+    expect(getRate(rates, 'EUR', '2025-02-28')).toBe(25);
+    expect(getRate(rates, 'EUR', '2025-03-01')).toBe(24);
+  });
+
+  it('falls back to the earliest rate before the first one, and knows the pivot', () => {
+    expect(getRate(rates, 'EUR', '2024-06-01')).toBe(25);
+    expect(getRate(rates, PIVOT_CURRENCY, '2024-06-01')).toBe(1);
+    expect(getRate(rates, 'GBP', '2025-01-01')).toBeUndefined();
+  });
+});
+
+describe('convertAmount', () => {
+  it('converts through the pivot currency at the rates of the day', () => {
+    expect(convertAmount(100, 'EUR', PIVOT_CURRENCY, '2025-01-15', rates)).toBe(2500);
+    expect(convertAmount(100, 'EUR', 'USD', '2025-03-15', rates)).toBe(120);
+    expect(convertAmount(100, 'GBP', 'EUR', '2025-03-15', rates)).toBeUndefined();
+  });
+});
+
+describe('applyCurrencyView', () => {
+  const transactions = [tx('2025-01-15', 100, 'EUR'), tx('2025-03-15', -50, 'USD'), tx('2025-03-16', 10, 'GBP')];
+
+  it('keeps only one currency in native mode', () => {
+    expect(applyCurrencyView(transactions, { mode: 'native', currency: 'EUR' }, rates)).toEqual({ transactions: [transactions[0]], missingRates: [] });
+  });
+
+  it('converts everything in converted mode and reports currencies without a rate', () => {
+    const { transactions: converted, missingRates } = applyCurrencyView(transactions, { mode: 'converted', currency: 'EUR' }, rates);
+    expect(converted.map(entry => [entry.id, entry.amount, entry.currency])).toEqual([[transactions[0].id, 100, 'EUR'], [transactions[1].id, 41.67, 'EUR']]);
+    expect(missingRates).toEqual(['GBP']);
+    expect(transactions[1]).toMatchObject({ amount: 50, currency: 'USD' });
+  });
+});
+
+describe('balances and totals', () => {
+  const accounts: BankAccount[] = [
+    { id: 'a', number: 'OWN-1', balance: 100, currency: 'EUR', user: me.user },
+    { id: 'b', number: 'OWN-2', balance: 2000, currency: PIVOT_CURRENCY, user: me.user },
+    { id: 'c', number: 'OWN-3', balance: 50, currency: 'EUR', user: me.user },
+  ];
+
+  it('sums the view balance at today\'s rate', () => {
+    const all = new Set(['OWN-1', 'OWN-2']);
+    expect(getViewBalance(accounts, all, { mode: 'converted', currency: PIVOT_CURRENCY }, rates, new Date(2025, 3, 1))).toBe(4400);
+    expect(getViewBalance(accounts, all, { mode: 'native', currency: 'EUR' }, rates)).toBe(100);
+  });
+
+  it('totals by currency without mixing them', () => {
+    expect(sumBalancesByCurrency(accounts)).toEqual([{ currency: 'EUR', balance: 150 }, { currency: PIVOT_CURRENCY, balance: 2000 }]);
+    const totals = computeCurrencyTotals([tx('2025-01-01', 100, 'EUR'), tx('2025-01-02', -30, 'EUR'), tx('2025-01-03', 5, 'USD')], { ownAccounts: scope, scope });
+    expect(totals).toEqual([
+      { currency: 'EUR', count: 2, incoming: 100, outgoing: -30, net: 70 },
+      { currency: 'USD', count: 1, incoming: 5, outgoing: 0, net: 5 },
+    ]);
+  });
+});
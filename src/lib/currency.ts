@@ -0,0 +1,130 @@
+import { getSignedAmount, type AccountContext } from './accounts';
+import type { BankAccount, Transaction } from './czechibank';
+import { toBucketKey } from './time-buckets';
+
+// Exchange rates are kept against one pivot currency: "1 EUR = 25 CZECHITOKEN from
+// 2025-01-01". Converting EUR to USD goes EUR -> pivot -> USD using the rates valid on
+// the transaction's day.
+export const PIVOT_CURRENCY = 'CZECHITOKEN';
+
+export interface ExchangeRate {
+  currency: string;
+  // Value of one unit of `currency` in PIVOT_CURRENCY.
+  rate: number;
+  // First day (YYYY-MM-DD) the rate applies; it stays valid until a newer entry.
+  validFrom: string;
+}
+
+export type CurrencyMode = 'native' | 'converted';
+
+// What the charts show: one currency's transactions as they are, or every transaction
+// converted into a reporting currency.
+export interface CurrencyView {
+  mode: CurrencyMode;
+  currency: string;
+}
+
+export interface CurrencyTotals {
+  currency: string;
+  count: number;
+  incoming: number;
+  outgoing: number;
+  net: number;
+}
+
+export const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export function getRate(rates: ExchangeRate[], currency: string, date: string | Date): number | undefined {
+  if (currency === PIVOT_CURRENCY) return 1;
+  const day = toBucketKey(date, 'day');
+  const candidates = rates
+    .filter(entry => entry.currency === currency && entry.rate > 0)
+    .sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+  // Before the first known rate, the earliest one is the best guess
+  const valid = candidates.filter(entry => entry.validFrom <= day);
+  return (valid[valid.length - 1] ?? candidates[0])?.rate;
+}
+
+export function convertAmount(amount: number, from: string, to: string, date: string | Date, rates: ExchangeRate[]): number | undefined {
+  if (from === to) return amount;
+  const fromRate = getRate(rates, from, date);
+  const toRate = getRate(rates, to, date);
+  if (fromRate === undefined || toRate === undefined) return undefined;
+  return roundAmount((amount * fromRate) / toRate);
+}
+
+export interface ConvertedTransactions {
+  transactions: Transaction[];
+  // Currencies that had no usable rate; their transactions are left out.
+  missingRates: string[];
+}
+
+// Native mode keeps only the chosen currency; converted mode re-expresses everything in
+// it at the rate of the transaction's day.
+export function applyCurrencyView(transactions: Transaction[], view: CurrencyView, rates: ExchangeRate[]): ConvertedTransactions {
+  if (view.mode === 'native') {
+    return { transactions: transactions.filter(tx => tx.currency === view.currency), missingRates: [] };
+  }
+
+  const missing = new Set<string>();
+  const converted: Transaction[] = [];
+  transactions.forEach(tx => {
+    const amount = convertAmount(tx.amount, tx.currency, view.currency, tx.createdAt, rates);
+    if (amount === undefined) {
+      [tx.currency, view.currency]
+        .filter(currency => getRate(rates, currency, tx.createdAt) === undefined)
+        .forEach(currency => missing.add(currency));
+      return;
+    }
+    converted.push({ ...tx, amount, currency: view.currency });
+  });
+  return { transactions: converted, missingRates: [...missing].sort() };
+}
+
+// Balance of the scoped accounts in the view's currency, converted at today's rate.
+export function getViewBalance(accounts: BankAccount[], scope: Set<string>, view: CurrencyView, rates: ExchangeRate[], now = new Date()): number {
+  return roundAmount(accounts
+    .filter(account => scope.has(account.number))
+    .reduce((sum, account) => {
+      if (view.mode === 'native') return account.currency === view.currency ? sum + account.balance : sum;
+      return sum + (convertAmount(account.balance, account.currency, view.currency, now, rates) ?? 0);
+    }, 0));
+}
+
+export function computeCurrencyTotals(transactions: Transaction[], { scope }: AccountContext): CurrencyTotals[] {
+  const totals = new Map<string, CurrencyTotals>();
+  transactions.forEach(tx => {
+    const entry = totals.get(tx.currency) ?? { currency: tx.currency, count: 0, incoming: 0, outgoing: 0, net: 0 };
+    const signedAmount = getSignedAmount(tx, scope);
+    entry.count++;
+    if (signedAmount > 0) entry.incoming += signedAmount;
+    if (signedAmount < 0) entry.outgoing += signedAmount;
+    entry.net += signedAmount;
+    totals.set(tx.currency, entry);
+  });
+  return [...totals.values()].sort((a, b) => b.count - a.count);
+}
+
+export function sumBalancesByCurrency(accounts: BankAccount[]): { currency: string; balance: number }[] {
+  const totals = new Map<string, number>();
+  accounts.forEach(account => totals.set(account.currency, (totals.get(account.currency) ?? 0) + account.balance));
+  return [...totals.entries()].map(([currency, balance]) => ({ currency, balance }));
+}
+
+const RATES_STORAGE_KEY = 'czechibank_exchange_rates';
+
+export function loadExchangeRates(): ExchangeRate[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RATES_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.filter((entry): entry is ExchangeRate =>
+        typeof entry?.currency === 'string' && typeof entry?.rate === 'number' && typeof entry?.validFrom === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveExchangeRates(rates: ExchangeRate[]) {
+  localStorage.setItem(RATES_STORAGE_KEY, JSON.stringify(rates));
+}
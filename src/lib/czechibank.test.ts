@@ -0,0 +1,86 @@
+import axios, { type AxiosInstance } from 'axios';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createCzechiBankClient, TRANSACTIONS_PAGE_SIZE, UNPAGED_TRANSACTIONS_LIMIT, type Transaction } from './czechibank';
+
+const party = { number: 'A-1', user: { id: 'u1', name: 'Someone' } };
+const history: Transaction[] = Array.from({ length: 1250 }, (_, index) => ({
+  id: `tx-${index}`,
+  amount: 10,
+  createdAt: '2025-01-01T12:00:00.000Z',
+  currency: 'CZK',
+  from: party,
+  to: party,
+}));
+
+interface FakeServer {
+  total?: number;
+  // Ignores `page` and always answers with the first `limit` transactions.
+  ignoresPage?: boolean;
+  // Answers these pages with a 500.
+  failingPages?: number[];
+  transactions?: Transaction[];
+}
+
+// Stands in for the axios instance the client creates; records the requested params.
+function fakeServer({ total, ignoresPage = false, failingPages = [], transactions = history }: FakeServer) {
+  const requests: { page: number; limit: number }[] = [];
+  const get = vi.fn(async (_endpoint: string, { params }: { params: { page: number; limit: number } }) => {
+    requests.push(params);
+    if (failingPages.includes(params.page)) throw new Error('Request failed with status code 500');
+    const start = ignoresPage ? 0 : (params.page - 1) * params.limit;
+    return { data: { data: { transactions: transactions.slice(start, start + params.limit), total } } };
+  });
+  vi.spyOn(axios, 'create').mockReturnValue({ get } as unknown as AxiosInstance);
+  return { client: createCzechiBankClient({ baseUrl: '/api/proxy' }), requests };
+}
+
+describe('getTransactionHistory', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('stops at the first short page', async () => {
+    const { client, requests } = fakeServer({ transactions: history.slice(0, 250) });
+    const result = await client.getTransactionHistory();
+    expect(result).toEqual({ transactions: history.slice(0, 250), complete: true });
+    expect(requests.map(request => request.page)).toEqual([1, 2, 3]);
+  });
+
+  it('stops once `total` is reached, even on a full page', async () => {
+    const { client, requests } = fakeServer({ transactions: history.slice(0, 200), total: 200 });
+    const progress = vi.fn();
+    const result = await client.getTransactionHistory(progress);
+    expect(result.complete).toBe(true);
+    expect(requests).toHaveLength(2);
+    expect(progress).toHaveBeenLastCalledWith({ page: 2, loaded: 200, total: 200 });
+  });
+
+  it('keeps the loaded pages when a later page fails', async () => {
+    const { client } = fakeServer({ failingPages: [3] });
+    const result = await client.getTransactionHistory();
+    expect(result.transactions).toHaveLength(2 * TRANSACTIONS_PAGE_SIZE);
+    expect(result.complete).toBe(false);
+    expect(result.incompleteReason).toMatchObject({ type: 'pageFailed', page: 3 });
+  });
+
+  it('throws when the first page fails', async () => {
+    const { client } = fakeServer({ failingPages: [1] });
+    await expect(client.getTransactionHistory()).rejects.toThrow('status code 500');
+  });
+
+  it('falls back to one large request when the server ignores `page`', async () => {
+    const { client, requests } = fakeServer({ ignoresPage: true, transactions: history.slice(0, 800) });
+    const result = await client.getTransactionHistory();
+    expect(result).toEqual({ transactions: history.slice(0, 800), complete: true });
+    expect(requests.at(-1)).toEqual({ page: 1, limit: UNPAGED_TRANSACTIONS_LIMIT });
+  });
+
+  it('marks the history partial when even the large request does not cover it', async () => {
+    const { client } = fakeServer({ ignoresPage: true });
+    const result = await client.getTransactionHistory();
+    expect(result.transactions).toHaveLength(UNPAGED_TRANSACTIONS_LIMIT);
+    expect(result.complete).toBe(false);
+    expect(result.incompleteReason).toEqual({ type: 'pagingUnsupported' });
+  });
+});
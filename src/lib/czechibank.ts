@@ -0,0 +1,241 @@
+import axios from 'axios';
+import { array, dateString, number, object, optional, parse, SchemaError, string, type Schema } from './schema';
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface AccountOwner {
+  name: string;
+  id: string;
+}
+
+export interface Transaction {
+  id: string;
+  amount: number;
+  createdAt: string;
+  currency: string;
+  from: {
+    number: string;
+    user: AccountOwner;
+  };
+  to: {
+    number: string;
+    user: AccountOwner;
+  };
+}
+
+export interface BankAccount {
+  id: string;
+  number: string;
+  balance: number;
+  currency: string;
+  user: AccountOwner;
+}
+
+// Served by this app (src/app/api/mock), see lib/mock-czechibank.ts.
+export const MOCK_BASE_URL = '/api/mock/v1';
+
+// Same-origin proxy (src/app/api/proxy) that adds the API key from the session cookie.
+export const PROXY_BASE_URL = '/api/proxy';
+
+const accountOwnerSchema = object<AccountOwner>({
+  name: string(),
+  id: string(),
+});
+
+export const userSchema = object<User>({
+  id: string(),
+  name: string(),
+  email: string(),
+});
+
+export const transactionSchema = object<Transaction>({
+  id: string(),
+  amount: number(),
+  createdAt: dateString(),
+  currency: string(),
+  from: object({ number: string(), user: accountOwnerSchema }),
+  to: object({ number: string(), user: accountOwnerSchema }),
+});
+
+export const bankAccountSchema = object<BankAccount>({
+  id: string(),
+  number: string(),
+  balance: number(),
+  currency: string(),
+  user: accountOwnerSchema,
+});
+
+const envelope = <T>(data: Schema<T>) => object<{ data: T }>({ data });
+
+const transactionsResponseSchema = envelope(
+  object<{ transactions: Transaction[]; total?: number }>({ transactions: array(transactionSchema), total: optional(number()) }),
+);
+const bankAccountsResponseSchema = envelope(object<{ bankAccounts: BankAccount[] }>({ bankAccounts: array(bankAccountSchema) }));
+const userResponseSchema = envelope(userSchema);
+
+// Transport failure: the request never got a usable HTTP response, or got a non-2xx one.
+export class CzechiBankApiError extends Error {
+  constructor(
+    message: string,
+    public readonly endpoint: string,
+    public readonly status?: number,
+    public readonly code?: string,
+  ) {
+    super(message);
+    this.name = 'CzechiBankApiError';
+  }
+}
+
+// The server answered, but the payload does not match what the dashboard relies on.
+export class CzechiBankResponseError extends Error {
+  constructor(
+    public readonly endpoint: string,
+    public readonly issue: SchemaError,
+  ) {
+    super(`Unexpected response from ${endpoint}: ${issue.message}`);
+    this.name = 'CzechiBankResponseError';
+  }
+}
+
+export const TRANSACTIONS_PAGE_SIZE = 100;
+// One large request for servers that ignore `page`, as many as the dashboard asked for
+// before it paged.
+export const UNPAGED_TRANSACTIONS_LIMIT = 1000;
+// Safety net against a backend that keeps returning pages forever.
+export const MAX_TRANSACTION_PAGES = 500;
+
+export interface TransactionHistoryProgress {
+  page: number;
+  loaded: number;
+  total?: number;
+}
+
+export type IncompleteHistoryReason =
+  | { type: 'pageFailed'; page: number; error: string }
+  | { type: 'pageLimit'; pages: number }
+  | { type: 'pagingUnsupported' };
+
+export interface TransactionHistory {
+  transactions: Transaction[];
+  complete: boolean;
+  // Why the history stopped early; only set when `complete` is false.
+  incompleteReason?: IncompleteHistoryReason;
+}
+
+export interface CzechiBankClientOptions {
+  baseUrl: string;
+  // Omitted when talking to PROXY_BASE_URL, which authenticates with the session cookie.
+  apiKey?: string;
+}
+
+export function createCzechiBankClient({ baseUrl, apiKey }: CzechiBankClientOptions) {
+  const http = axios.create({
+    baseURL: baseUrl,
+    withCredentials: false,
+    headers: apiKey ? { 'x-api-key': apiKey } : {},
+  });
+
+  const get = async <T>(endpoint: string, schema: Schema<T>, params?: Record<string, string | number>): Promise<T> => {
+    let body: unknown;
+    try {
+      const res = await http.get(endpoint, { params });
+      body = res.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new CzechiBankApiError(error.message, endpoint, error.response?.status, error.code);
+      }
+      throw error;
+    }
+
+    try {
+      return parse(schema, body);
+    } catch (error) {
+      if (error instanceof SchemaError) throw new CzechiBankResponseError(endpoint, error);
+      throw error;
+    }
+  };
+
+  const getTransactionsPage = async (page: number, limit = TRANSACTIONS_PAGE_SIZE) =>
+    (await get('/transactions', transactionsResponseSchema, { page, limit })).data;
+
+  const getUnpagedHistory = async (
+    byId: Map<string, Transaction>,
+    total: number | undefined,
+    onProgress?: (progress: TransactionHistoryProgress) => void,
+  ): Promise<TransactionHistory> => {
+    const partial = (): TransactionHistory => ({
+      transactions: [...byId.values()],
+      complete: false,
+      incompleteReason: { type: 'pagingUnsupported' },
+    });
+    let result: Awaited<ReturnType<typeof getTransactionsPage>>;
+    try {
+      result = await getTransactionsPage(1, UNPAGED_TRANSACTIONS_LIMIT);
+    } catch {
+      return partial();
+    }
+
+    total = result.total ?? total;
+    result.transactions.forEach(tx => byId.set(tx.id, tx));
+    onProgress?.({ page: 1, loaded: byId.size, total });
+    const reachedEnd = result.transactions.length < UNPAGED_TRANSACTIONS_LIMIT || (total !== undefined && byId.size >= total);
+    return reachedEnd ? { transactions: [...byId.values()], complete: true } : partial();
+  };
+
+  // Pages through /transactions until the server runs out of history. A failure on the
+  // first page is thrown; later failures keep what was loaded and mark the result partial.
+  const getTransactionHistory = async (onProgress?: (progress: TransactionHistoryProgress) => void): Promise<TransactionHistory> => {
+    const byId = new Map<string, Transaction>();
+    let total: number | undefined;
+
+    for (let page = 1; page <= MAX_TRANSACTION_PAGES; page++) {
+      let result: Awaited<ReturnType<typeof getTransactionsPage>>;
+      try {
+        result = await getTransactionsPage(page);
+      } catch (error) {
+        if (page === 1) throw error;
+        return {
+          transactions: [...byId.values()],
+          complete: false,
+          incompleteReason: { type: 'pageFailed', page, error: error instanceof Error ? error.message : String(error) },
+        };
+      }
+
+      total = result.total ?? total;
+      const sizeBefore = byId.size;
+      result.transactions.forEach(tx => byId.set(tx.id, tx));
+      onProgress?.({ page, loaded: byId.size, total });
+
+      // A short page, or reaching `total`, ends the history.
+      const reachedEnd = result.transactions.length < TRANSACTIONS_PAGE_SIZE
+        || (total !== undefined && byId.size >= total);
+      if (reachedEnd) {
+        return { transactions: [...byId.values()], complete: true };
+      }
+      // A full page with nothing new means the server ignores `page`; one large request
+      // then gets as much as such a server returns
+      if (byId.size === sizeBefore) {
+        return getUnpagedHistory(byId, total, onProgress);
+      }
+    }
+
+    return {
+      transactions: [...byId.values()],
+      complete: false,
+      incompleteReason: { type: 'pageLimit', pages: MAX_TRANSACTION_PAGES },
+    };
+  };
+
+  return {
+    getTransactionsPage,
+    getTransactionHistory,
+    getBankAccounts: async () => (await get('/bank-account', bankAccountsResponseSchema)).data.bankAccounts,
+    getUser: async () => (await get('/user', userResponseSchema)).data,
+  };
+}
+
+export type CzechiBankClient = ReturnType<typeof createCzechiBankClient>;
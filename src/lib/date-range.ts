@@ -0,0 +1,66 @@
+export type DateRangePreset = 'all' | 'last7' | 'last30' | 'last90' | 'thisMonth' | 'thisYear' | 'custom';
+
+export interface DateRange {
+  preset: DateRangePreset;
+  // Inclusive calendar days as `YYYY-MM-DD`, only used by the `custom` preset.
+  from?: string;
+  to?: string;
+}
+
+export interface ResolvedDateRange {
+  start: Date | null;
+  end: Date | null;
+}
+
+export const DEFAULT_DATE_RANGE: DateRange = { preset: 'all' };
+
+export const DATE_RANGE_PRESETS: DateRangePreset[] = ['all', 'last7', 'last30', 'last90', 'thisMonth', 'thisYear', 'custom'];
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+export const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+
+export function parseDay(value: string | undefined): Date | null {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  if (!year || !month || !day) return null;
+  return new Date(year, month - 1, day);
+}
+
+// "Last N days" includes today, so last7 is today and the six days before it.
+export function resolveDateRange(range: DateRange, now = new Date()): ResolvedDateRange {
+  const lastDays = (days: number) => ({
+    start: startOfDay(new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1))),
+    end: endOfDay(now),
+  });
+
+  switch (range.preset) {
+    case 'last7':
+      return lastDays(7);
+    case 'last30':
+      return lastDays(30);
+    case 'last90':
+      return lastDays(90);
+    case 'thisMonth':
+      return { start: new Date(now.getFullYear(), now.getMonth(), 1), end: endOfDay(now) };
+    case 'thisYear':
+      return { start: new Date(now.getFullYear(), 0, 1), end: endOfDay(now) };
+    case 'custom': {
+      const from = parseDay(range.from);
+      const to = parseDay(range.to);
+      return { start: from && startOfDay(from), end: to && endOfDay(to) };
+    }
+    default:
+      return { start: null, end: null };
+  }
+}
+
+export function isWithinRange(value: string | Date, { start, end }: ResolvedDateRange): boolean {
+  const time = new Date(value).getTime();
+  if (start && time < start.getTime()) return false;
+  if (end && time > end.getTime()) return false;
+  return true;
+}
+
+export function isAfterRange(value: string | Date, { end }: ResolvedDateRange): boolean {
+  return end !== null && new Date(value).getTime() > end.getTime();
+}
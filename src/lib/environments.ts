@@ -0,0 +1,58 @@
+import { MOCK_BASE_URL } from './czechibank';
+
+// API environments the login screen offers: the built-in CzechiBank deployments plus any
+// base URLs (e.g. a local backend) the user added, which are remembered in localStorage.
+// Environments hold no secrets; keys are kept in the server session (lib/session.ts).
+
+export interface ApiEnvironment {
+  id: string;
+  label: string;
+  baseUrl: string;
+  custom?: boolean;
+}
+
+export const BUILT_IN_ENVIRONMENTS: ApiEnvironment[] = [
+  { id: 'develop', label: 'Develop', baseUrl: 'https://develop.czechibank.ostrava.digital/api/v1' },
+  { id: 'praha', label: 'Praha', baseUrl: 'https://praha.czechibank.ostrava.digital/api/v1' },
+  { id: 'ostrava', label: 'Ostrava', baseUrl: 'https://ostrava.czechibank.ostrava.digital/api/v1' },
+  { id: 'mock', label: 'Local mock', baseUrl: MOCK_BASE_URL },
+];
+
+export const isBuiltInBaseUrl = (baseUrl: string) => BUILT_IN_ENVIRONMENTS.some(environment => environment.baseUrl === baseUrl);
+
+// Custom base URLs must be absolute http(s) URLs; a trailing slash is dropped.
+export function normalizeBaseUrl(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.search = '';
+    url.hash = '';
+    return url.toString().replace(/\/+$/, '');
+  } catch {
+    return null;
+  }
+}
+
+export function findEnvironment(environments: ApiEnvironment[], baseUrl: string): ApiEnvironment | undefined {
+  return environments.find(environment => environment.baseUrl === baseUrl);
+}
+
+const ENVIRONMENTS_STORAGE_KEY = 'czechibank_environments';
+
+export function loadCustomEnvironments(): ApiEnvironment[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ENVIRONMENTS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored
+        .filter((entry): entry is ApiEnvironment =>
+          typeof entry?.id === 'string' && typeof entry?.label === 'string' && typeof entry?.baseUrl === 'string')
+        .map(entry => ({ id: entry.id, label: entry.label, baseUrl: entry.baseUrl, custom: true }))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomEnvironments(environments: ApiEnvironment[]) {
+  localStorage.setItem(ENVIRONMENTS_STORAGE_KEY, JSON.stringify(environments.filter(environment => environment.custom)));
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Transaction } from './czechibank';
+import { exportFileName, serializeRows, toCsv, transactionsToRows } from './export';
+
+describe('toCsv', () => {
+  it('quotes delimiters, quotes, line breaks and surrounding spaces', () => {
+    const csv = toCsv([{ name: 'Novák, Jan', note: 'say "hi"', text: 'two\nlines', padded: ' x ', amount: -12.5, empty: null }]);
+    expect(csv).toBe('name,note,text,padded,amount,empty\r\n"Novák, Jan","say ""hi""","two\nlines"," x ",-12.5,\r\n');
+  });
+
+  it('guards text cells that a spreadsheet would run as a formula', () => {
+    expect(toCsv([{ a: '=1+1', b: '-cmd', c: '@SUM(A1)', d: -5 }])).toBe("a,b,c,d\r\n'=1+1,'-cmd,'@SUM(A1),-5\r\n");
+  });
+});
+
+describe('serializeRows', () => {
+  const rows = [{ name: 'Žluťoučký kůň; s.r.o.', amount: 1 }];
+
+  it('writes the Excel variant with a BOM and semicolons', () => {
+    expect(serializeRows(rows, 'excel')).toBe('\uFEFFname;amount\r\n"Žluťoučký kůň; s.r.o.";1\r\n');
+    expect(serializeRows(rows, 'csv')).toBe('name,amount\r\nŽluťoučký kůň; s.r.o.,1\r\n');
+  });
+
+  it('writes JSON as is', () => {
+    expect(JSON.parse(serializeRows(rows, 'json'))).toEqual(rows);
+  });
+});
+
+describe('transactionsToRows', () => {
+  const me = { number: 'OWN-1', user: { id: 'u1', name: 'Me' } };
+  const savings = { number: 'OWN-2', user: me.user };
+  const partner = { number: 'P-1', user: { id: 'u2', name: 'Partner' } };
+  const base = { amount: 100, createdAt: '2025-01-10T12:00:00.000Z', currency: 'CZK' };
+  const transactions: Transaction[] = [
+    { ...base, id: 'in', from: partner, to: me },
+    { ...base, id: 'out', from: me, to: partner },
+    { ...base, id: 'internal', from: me, to: savings },
+  ];
+
+  it('signs amounts from the point of view of the selected accounts', () => {
+    const own = new Set([me.number, savings.number]);
+    const rows = transactionsToRows(transactions, own, own, new Map([['out', 'Housing']]));
+    expect(rows.map(row => [row.id, row.direction, row.amount, row.category])).toEqual([
+      ['in', 'incoming', 100, ''],
+      ['out', 'outgoing', -100, 'Housing'],
+      ['internal', 'internal', 100, ''],
+    ]);
+  });
+
+  it('leaves the category column out without categories', () => {
+    const own = new Set([me.number]);
+    expect(transactionsToRows(transactions, own, own)[0]).not.toHaveProperty('category');
+  });
+});
+
+describe('exportFileName', () => {
+  it('names the dataset and the day, with the extension of the format', () => {
+    const now = new Date(2025, 4, 6, 12);
+    expect(exportFileName('transactions', 'excel', now)).toBe('czechibank-transactions-2025-05-06.csv');
+    expect(exportFileName('volume', 'json', now)).toBe('czechibank-volume-2025-05-06.json');
+  });
+});
@@ -0,0 +1,88 @@
+import { getSignedAmount, getTransactionDirection } from './accounts';
+import { toDayKey } from './analytics';
+import type { Transaction } from './czechibank';
+
+export type ExportFormat = 'csv' | 'excel' | 'json';
+
+export type ExportValue = string | number | boolean | null | undefined;
+export type ExportRow = Record<string, ExportValue>;
+
+// Any flat record of export values: plain rows as well as the analytics interfaces.
+type Exportable = object;
+
+export const EXPORT_FORMATS: { value: ExportFormat; extension: string; mimeType: string }[] = [
+  { value: 'csv', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  // Excel only detects UTF-8 (and therefore Czech diacritics) in a CSV that starts with a BOM,
+  // and Czech Windows settings make it split columns on `;` rather than `,`. A `sep=;` line
+  // would force the delimiter, but Excel then ignores the BOM.
+  { value: 'excel', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  { value: 'json', extension: 'json', mimeType: 'application/json;charset=utf-8' },
+];
+
+// Spreadsheets evaluate cells starting with these characters as formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvValue(value: ExportValue, delimiter: string): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  const needsQuotes = text.includes(delimiter) || /["\r\n]/.test(text) || text.trim() !== text;
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180: comma separated, CRLF line endings, quotes doubled inside quoted fields.
+export function toCsv(rows: Exportable[], columns: string[] = rows.length > 0 ? Object.keys(rows[0]) : [], delimiter = ','): string {
+  const line = (values: ExportValue[]) => values.map(value => escapeCsvValue(value, delimiter)).join(delimiter);
+  const lines = [line(columns)];
+  rows.forEach(row => lines.push(line(columns.map(column => (row as ExportRow)[column]))));
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function serializeRows(rows: Exportable[], format: ExportFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(rows, null, 2);
+    case 'excel':
+      return `\uFEFF${toCsv(rows, undefined, ';')}`;
+    default:
+      return toCsv(rows);
+  }
+}
+
+// One row per transaction, signed the same way the table shows it: + into the selected
+// account(s), - out of them, unsigned for transfers that stay inside.
+export function transactionsToRows(transactions: Transaction[], ownAccounts: Set<string>, scope: Set<string>, categories?: Map<string, string>): ExportRow[] {
+  return transactions.map(tx => ({
+    id: tx.id,
+    createdAt: new Date(tx.createdAt).toISOString(),
+    direction: getTransactionDirection(tx, ownAccounts, scope),
+    amount: getSignedAmount(tx, scope) || Math.abs(tx.amount),
+    currency: tx.currency,
+    fromName: tx.from.user.name,
+    fromUserId: tx.from.user.id,
+    fromAccount: tx.from.number,
+    toName: tx.to.user.name,
+    toUserId: tx.to.user.id,
+    toAccount: tx.to.number,
+    ...(categories && { category: categories.get(tx.id) ?? '' }),
+  }));
+}
+
+export function exportFileName(dataset: string, format: ExportFormat, now = new Date()): string {
+  const extension = EXPORT_FORMATS.find(entry => entry.value === format)?.extension ?? format;
+  return `czechibank-${dataset}-${toDayKey(now)}.${extension}`;
+}
+
+export function downloadRows(dataset: string, rows: Exportable[], format: ExportFormat) {
+  const mimeType = EXPORT_FORMATS.find(entry => entry.value === format)?.mimeType ?? 'text/plain';
+  const blob = new Blob([serializeRows(rows, format)], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = exportFileName(dataset, format);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Transaction } from './czechibank';
+import { appendForecast, forecastBalance } from './forecast';
+import { detectRecurring } from './recurring';
+
+const me = { number: 'OWN-1', user: { id: 'u1', name: 'Me' } };
+const context = { ownAccounts: new Set([me.number]), scope: new Set([me.number]) };
+const now = new Date(2025, 3, 20, 12);
+
+let nextId = 0;
+// Payments out of the own account, at local noon
+const sent = (date: Date, amount: number, partner = 'P-1'): Transaction => ({
+  id: String(++nextId),
+  amount,
+  createdAt: new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12).toISOString(),
+  currency: 'CZK',
+  from: me,
+  to: { number: partner, user: { id: partner, name: partner } },
+});
+
+describe('forecastBalance', () => {
+  it('stays flat without any history', () => {
+    const forecast = forecastBalance([], context, 1000, [], 30, now);
+    expect(forecast.points).toHaveLength(31);
+    expect(forecast.points[30]).toEqual({ day: '2025-05-20', balance: 1000, lower: 1000, upper: 1000 });
+    expect(forecast.daysUntilZero).toBeNull();
+  });
+
+  it('continues the everyday flow of the recent past', () => {
+    const spending = Array.from({ length: 109 }, (_, index) => sent(new Date(2025, 0, 1 + index), 10));
+    const forecast = forecastBalance(spending, context, 1000, [], 30, now);
+    expect(forecast.dailyNet).toBe(-10);
+    expect(forecast.points[30]).toEqual({ day: '2025-05-20', balance: 700, lower: 700, upper: 700 });
+  });
+
+  it('puts recurring payments on their expected days and counts the days until zero', () => {
+    const rent = [0, 1, 2, 3].map(month => sent(new Date(2025, month, 15), 15000, 'LANDLORD'));
+    const series = detectRecurring(rent, context, now);
+    const forecast = forecastBalance(rent, context, 20000, series, 60, now);
+    expect(forecast.dailyNet).toBe(0);
+    const balanceOn = (day: string) => forecast.points.find(point => point.day === day)?.balance;
+    expect(balanceOn('2025-05-14')).toBe(20000);
+    expect(balanceOn('2025-05-15')).toBe(5000);
+    expect(forecast.daysUntilZero).toBe(56);
+  });
+
+  it('widens the band with the spread of the daily flow', () => {
+    const spending = Array.from({ length: 109 }, (_, index) => sent(new Date(2025, 0, 1 + index), index % 2 ? 20 : 0.01));
+    const { points } = forecastBalance(spending, context, 1000, [], 30, now);
+    expect(points[1].upper - points[1].lower).toBeGreaterThan(0);
+    expect(points[30].upper - points[30].lower).toBeGreaterThan(points[1].upper - points[1].lower);
+  });
+});
+
+describe('appendForecast', () => {
+  it('joins the forecast to the last historical period', () => {
+    const forecast = forecastBalance([], context, 1000, [], 45, now);
+    const history = [
+      { period: '2025-03', incoming: 0, outgoing: 0, balance: 900 },
+      { period: '2025-04', incoming: 100, outgoing: 0, balance: 1000 },
+    ];
+    expect(appendForecast(history, forecast, 'month')).toEqual([
+      history[0],
+      { ...history[1], forecast: 1000, forecastRange: [1000, 1000] },
+      { period: '2025-05', forecast: 1000, forecastRange: [1000, 1000] },
+      { period: '2025-06', forecast: 1000, forecastRange: [1000, 1000] },
+    ]);
+  });
+});
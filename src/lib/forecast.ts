@@ -0,0 +1,116 @@
+import { getSignedAmount, type AccountContext } from './accounts';
+import { toDayKey, type RunningBalancePoint } from './analytics';
+import type { Transaction } from './czechibank';
+import { roundAmount } from './currency';
+import { parseDay } from './date-range';
+import { upcomingOccurrences, type RecurringSeries } from './recurring';
+import { DAY } from './stats';
+import { toBucketKey, type Granularity } from './time-buckets';
+
+// Projects the balance forward from today. Detected recurring payments land on their
+// expected days; everything else is modelled as a random walk with the average daily
+// net flow of the recent past, whose spread gives the confidence band.
+
+export const FORECAST_HORIZONS = [30, 90, 180];
+export const DEFAULT_FORECAST_DAYS = 90;
+
+// How far back the everyday (non-recurring) flow is averaged.
+const LOOKBACK_DAYS = 90;
+// z-score of the band: 80 % of outcomes are expected to fall inside it.
+const BAND_Z = 1.28;
+
+export interface ForecastPoint {
+  // `YYYY-MM-DD`
+  day: string;
+  balance: number;
+  lower: number;
+  upper: number;
+}
+
+export interface BalanceForecast {
+  // Starts with today at the current balance.
+  points: ForecastPoint[];
+  // Average everyday net flow per day, without recurring payments.
+  dailyNet: number;
+  // Days from today until the expected balance is zero or below; null if it stays above
+  // zero for the whole horizon.
+  daysUntilZero: number | null;
+}
+
+// A running-balance point, or a future one that only carries the forecast.
+export type ForecastChartPoint = Partial<RunningBalancePoint> & {
+  period: string;
+  forecast?: number;
+  // [lower, upper], drawn as a ranged area.
+  forecastRange?: [number, number];
+};
+
+const addDays = (day: Date, days: number) => new Date(day.getFullYear(), day.getMonth(), day.getDate() + days);
+
+export function forecastBalance(
+  transactions: Transaction[],
+  { scope }: AccountContext,
+  currentBalance: number,
+  series: RecurringSeries[],
+  days = DEFAULT_FORECAST_DAYS,
+  now = new Date(),
+): BalanceForecast {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const todayKey = toDayKey(today);
+  const recurringIds = new Set(series.flatMap(entry => entry.transactionIds));
+
+  // Everyday flow per day over the lookback window, or over the history if it is shorter
+  const past = transactions.filter(tx => new Date(tx.createdAt) <= now);
+  const firstDay = past.reduce((first, tx) => Math.min(first, new Date(tx.createdAt).getTime()), today.getTime());
+  const lookback = Math.max(1, Math.min(LOOKBACK_DAYS, Math.ceil((today.getTime() - firstDay) / DAY)));
+  const lookbackStart = addDays(today, -lookback);
+  const dailyFlows = new Map<string, number>();
+  past
+    .filter(tx => !recurringIds.has(tx.id) && new Date(tx.createdAt) >= lookbackStart)
+    .forEach(tx => {
+      const day = toDayKey(tx.createdAt);
+      dailyFlows.set(day, (dailyFlows.get(day) ?? 0) + getSignedAmount(tx, scope));
+    });
+  const flows = Array.from({ length: lookback }, (_, index) => dailyFlows.get(toDayKey(addDays(lookbackStart, index))) ?? 0);
+  const dailyNet = flows.reduce((sum, flow) => sum + flow, 0) / flows.length;
+  const deviation = Math.sqrt(flows.reduce((sum, flow) => sum + (flow - dailyNet) ** 2, 0) / flows.length);
+
+  const lastKey = toDayKey(addDays(today, days));
+  const scheduled = new Map<string, number>();
+  series.forEach(entry => {
+    const amount = entry.direction === 'incoming' ? entry.averageAmount : -entry.averageAmount;
+    upcomingOccurrences(entry, todayKey, lastKey).forEach(day => scheduled.set(day, (scheduled.get(day) ?? 0) + amount));
+  });
+
+  // Payments expected today have not necessarily arrived yet, so they count from day one
+  let balance = currentBalance + (scheduled.get(todayKey) ?? 0);
+  const points: ForecastPoint[] = [{ day: todayKey, balance: currentBalance, lower: currentBalance, upper: currentBalance }];
+  let daysUntilZero: number | null = currentBalance <= 0 ? 0 : null;
+  for (let offset = 1; offset <= days; offset++) {
+    const day = toDayKey(addDays(today, offset));
+    balance += dailyNet + (scheduled.get(day) ?? 0);
+    const band = BAND_Z * deviation * Math.sqrt(offset);
+    points.push({ day, balance: roundAmount(balance), lower: roundAmount(balance - band), upper: roundAmount(balance + band) });
+    if (daysUntilZero === null && balance <= 0) daysUntilZero = offset;
+  }
+
+  return { points, dailyNet: roundAmount(dailyNet), daysUntilZero };
+}
+
+// Continues a running-balance series with the forecast, one point per period holding the
+// balance expected at its end. The last historical point starts the forecast line, so
+// the dashed projection joins the solid one.
+export function appendForecast(history: RunningBalancePoint[], forecast: BalanceForecast, granularity: Granularity): ForecastChartPoint[] {
+  const last = history[history.length - 1];
+  const future = new Map<string, ForecastPoint>();
+  forecast.points.forEach(point => {
+    const period = toBucketKey(parseDay(point.day)!, granularity);
+    if (!last || period > last.period) future.set(period, point);
+  });
+
+  return [
+    ...history.slice(0, -1),
+    ...(last ? [{ ...last, forecast: last.balance, forecastRange: [last.balance, last.balance] as [number, number] }] : []),
+    ...[...future].map(([period, point]) => ({ period, forecast: point.balance, forecastRange: [point.lower, point.upper] as [number, number] })),
+  ];
+}
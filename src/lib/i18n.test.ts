@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+
+import { UNCATEGORIZED } from './categories';
+import { createFormatters } from './i18n';
+
+describe('format.bucket', () => {
+  it('labels weeks and quarters in the chosen language', () => {
+    expect(createFormatters('en').bucket('2025-W05', 'week')).toBe('W5 2025');
+    expect(createFormatters('cs').bucket('2025-W05', 'week')).toBe('5. týden 2025');
+    expect(createFormatters('en').bucket('2025-Q3', 'quarter')).toBe('Q3 2025');
+    expect(createFormatters('cs').bucket('2025-Q3', 'quarter')).toBe('3. čtvrtletí 2025');
+  });
+
+  it('keeps the year key as it is', () => {
+    expect(createFormatters('cs').bucket('2025', 'year')).toBe('2025');
+  });
+});
+
+describe('format.category', () => {
+  it('translates the built-in categories', () => {
+    expect(createFormatters('cs').category('Housing')).toBe('Bydlení');
+    expect(createFormatters('cs').category(UNCATEGORIZED)).toBe('Bez kategorie');
+    expect(createFormatters('en').category('Housing')).toBe('Housing');
+  });
+
+  it('shows user-created categories as they were typed', () => {
+    expect(createFormatters('cs').category('Holidays')).toBe('Holidays');
+    expect(createFormatters('cs').category('constructor')).toBe('constructor');
+  });
+});
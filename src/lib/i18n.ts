@@ -0,0 +1,135 @@
+import { getCategoryMessage } from './categories';
+import { parseDay } from './date-range';
+import { cs } from './messages/cs';
+import { en, type MessageKey } from './messages/en';
+import { bucketStart, type Granularity } from './time-buckets';
+
+// Message catalogs and locale-aware formatting. Every text and number the UI shows goes
+// through `translate` and the formatters below, so switching the language changes all of
+// it at once. The chosen language is kept in a cookie, which lets the server render
+// `<html lang>` and the page metadata in it too.
+
+export type Locale = 'cs' | 'en';
+
+// Plural messages are picked with Intl.PluralRules; `other` is the fallback.
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+export type { MessageKey };
+
+export type MessageValues = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'cs', label: 'Čeština' },
+  { value: 'en', label: 'English' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALE_COOKIE = 'czechibank_locale';
+
+const CATALOGS: Record<Locale, Record<MessageKey, Message>> = { cs, en };
+
+// Region-specific tags, so Intl uses Czech and US conventions rather than guessing.
+const INTL_LOCALES: Record<Locale, string> = { cs: 'cs-CZ', en: 'en-US' };
+
+const PLURAL_RULES: Record<Locale, Intl.PluralRules> = {
+  cs: new Intl.PluralRules(INTL_LOCALES.cs),
+  en: new Intl.PluralRules(INTL_LOCALES.en),
+};
+
+const NUMBER_FORMATS: Record<Locale, Intl.NumberFormat> = {
+  cs: new Intl.NumberFormat(INTL_LOCALES.cs, { maximumFractionDigits: 2 }),
+  en: new Intl.NumberFormat(INTL_LOCALES.en, { maximumFractionDigits: 2 }),
+};
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(option => option.value === value);
+
+// The saved choice, otherwise the first supported language of an Accept-Language header.
+export function resolveLocale(saved: string | undefined, acceptLanguage?: string | null): Locale {
+  if (isLocale(saved)) return saved;
+  const preferred = (acceptLanguage ?? '')
+    .split(',')
+    .map(entry => entry.split(';')[0].trim().toLowerCase().split('-')[0])
+    .find(isLocale);
+  return preferred ?? DEFAULT_LOCALE;
+}
+
+export function translate(locale: Locale, key: MessageKey, values: MessageValues = {}): string {
+  const message = CATALOGS[locale][key] ?? en[key];
+  const template = typeof message === 'string'
+    ? message
+    : message[PLURAL_RULES[locale].select(Number(values.count))] ?? message.other;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = values[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? NUMBER_FORMATS[locale].format(value) : value;
+  });
+}
+
+export interface Formatters {
+  number: (value: number) => string;
+  // Currencies are shown by their code after the number; CZECHITOKEN is no ISO currency,
+  // so Intl's currency style can't be used.
+  amount: (value: number, currency: string) => string;
+  // Always with a sign, e.g. +120 or −35.
+  signedAmount: (value: number, currency?: string) => string;
+  // From percent points, e.g. 12.5 -> "+12.5 %".
+  percentChange: (value: number) => string;
+  // Dates or `YYYY-MM-DD` day keys, which are local calendar days.
+  date: (value: Date | string) => string;
+  dateTime: (value: Date | string) => string;
+  bucket: (key: string, granularity: Granularity) => string;
+  // Built-in categories in the current language; user-created ones as they were typed.
+  category: (name: string) => string;
+}
+
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+const toDate = (value: Date | string) => (typeof value === 'string' && DAY_KEY.test(value) ? parseDay(value)! : new Date(value));
+
+export function createFormatters(locale: Locale): Formatters {
+  const tag = INTL_LOCALES[locale];
+  const numberFormat = NUMBER_FORMATS[locale];
+  const signedFormat = new Intl.NumberFormat(tag, { maximumFractionDigits: 2, signDisplay: 'exceptZero' });
+  const percentFormat = new Intl.NumberFormat(tag, { style: 'percent', maximumFractionDigits: 1, signDisplay: 'exceptZero' });
+  const dateFormat = new Intl.DateTimeFormat(tag, { year: 'numeric', month: 'short', day: 'numeric' });
+  const dateTimeFormat = new Intl.DateTimeFormat(tag, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+  const dayFormat = new Intl.DateTimeFormat(tag, { day: 'numeric', month: 'numeric', year: 'numeric' });
+  const monthFormat = new Intl.DateTimeFormat(tag, { month: 'short', year: 'numeric' });
+
+  return {
+    number: value => numberFormat.format(value),
+    amount: (value, currency) => `${numberFormat.format(value)} ${currency}`,
+    signedAmount: (value, currency) => (currency ? `${signedFormat.format(value)} ${currency}` : signedFormat.format(value)),
+    percentChange: value => percentFormat.format(value / 100),
+    date: value => dateFormat.format(toDate(value)),
+    dateTime: value => dateTimeFormat.format(toDate(value)),
+    bucket: (key, granularity) => {
+      switch (granularity) {
+        case 'day':
+          return dayFormat.format(bucketStart(key, granularity));
+        case 'week':
+          return translate(locale, 'granularity.weekLabel', { week: Number(key.slice(6)), year: key.slice(0, 4) });
+        case 'month':
+          return monthFormat.format(bucketStart(key, granularity));
+        case 'quarter':
+          return translate(locale, 'granularity.quarterLabel', { quarter: Number(key.slice(6)), year: key.slice(0, 4) });
+        case 'year':
+          return key;
+      }
+    },
+    category: name => {
+      const key = getCategoryMessage(name);
+      return key ? translate(locale, key) : name;
+    },
+  };
+}
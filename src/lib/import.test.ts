@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Transaction } from './czechibank';
+import { EXPORT_FORMATS, serializeRows, transactionsToRows, type ExportFormat } from './export';
+import { buildOfflineDataset, ImportError, listParties, parseCsv, parseTransactionsFile } from './import';
+
+const me = { number: 'OWN-1', user: { id: 'u1', name: 'Me' } };
+const partner = { number: 'P-1', user: { id: 'u2', name: 'Novák; "Jan", s.r.o.' } };
+
+const transactions: Transaction[] = [
+  { id: '1', amount: 1200.5, createdAt: '2025-01-10T12:00:00.000Z', currency: 'CZK', from: partner, to: me },
+  { id: '2', amount: 300, createdAt: '2025-02-03T08:30:00.000Z', currency: 'CZK', from: me, to: partner },
+  { id: '3', amount: 50, createdAt: '2025-02-04T09:00:00.000Z', currency: 'EUR', from: me, to: { number: 'P-2', user: { id: 'u3', name: '=SUM(A1)' } } },
+];
+
+describe('parseCsv', () => {
+  it('splits on the delimiter of the header line', () => {
+    expect(parseCsv('a;b\r\n"1,5";2\r\n')).toEqual([['a', 'b'], ['1,5', '2']]);
+    expect(parseCsv('a,b\r\n"1;5",2\r\n')).toEqual([['a', 'b'], ['1;5', '2']]);
+  });
+});
+
+describe('export and import', () => {
+  it.each(EXPORT_FORMATS.map(format => [format.value, format.extension] as [ExportFormat, string]))('round-trips the %s format', (format, extension) => {
+    const scope = new Set([me.number]);
+    const content = serializeRows(transactionsToRows(transactions, scope, scope), format);
+    expect(parseTransactionsFile(`transactions.${extension}`, content)).toEqual(transactions);
+  });
+});
+
+describe('parseTransactionsFile', () => {
+  it('reads a raw API response', () => {
+    const content = JSON.stringify({ data: { transactions } });
+    expect(parseTransactionsFile('history.json', content)).toEqual(transactions);
+  });
+
+  it('names the reason of a file it cannot read', () => {
+    const reason = (fileName: string, content: string) => {
+      try {
+        parseTransactionsFile(fileName, content);
+      } catch (error) {
+        return error instanceof ImportError ? error.reason : error;
+      }
+    };
+    expect(reason('a.json', '{ not json')).toBe('invalidJson');
+    expect(reason('a.csv', 'id,createdAt\r\n"1,2025-01-01')).toBe('unterminatedQuote');
+    expect(reason('a.csv', 'id;amount\r\n1;x')).toBe('unexpectedFormat');
+    expect(reason('a.json', '[]')).toBe('noTransactions');
+  });
+});
+
+describe('listParties', () => {
+  it('tells parties without user ids apart by their account', () => {
+    const anonymous = (number: string, name: string) => ({ number, user: { id: '', name } });
+    const parties = listParties([
+      { ...transactions[0], from: anonymous('A-1', 'Alice'), to: anonymous('B-1', 'Bob') },
+      { ...transactions[1], from: anonymous('B-1', 'Bob'), to: anonymous('C-1', 'Carol') },
+    ]);
+    expect(parties.map(party => [party.id, party.name, party.transactionCount])).toEqual([['B-1', 'Bob', 2], ['A-1', 'Alice', 1], ['C-1', 'Carol', 1]]);
+  });
+});
+
+describe('buildOfflineDataset', () => {
+  it('keeps the chosen party\'s transactions and derives balances from them', () => {
+    const [mine] = listParties(transactions);
+    expect(mine).toMatchObject({ id: 'u1', accountNumbers: ['OWN-1'], transactionCount: 3 });
+    const dataset = buildOfflineDataset(transactions, mine);
+    expect(dataset.user).toEqual({ id: 'u1', name: 'Me', email: '' });
+    expect(dataset.accounts).toEqual([{ id: 'OWN-1', number: 'OWN-1', balance: 850.5, currency: 'CZK', user: { id: 'u1', name: 'Me' } }]);
+    expect(dataset.transactions).toHaveLength(3);
+  });
+});
@@ -0,0 +1,206 @@
+import { getPartnerId } from './accounts';
+import { transactionSchema, type BankAccount, type Transaction, type User } from './czechibank';
+import { array, dateString, number, object, parse, SchemaError, string, type Schema } from './schema';
+
+// Flat row layout written by `transactionsToRows` in ./export, as CSV or JSON.
+interface ExportedTransactionRow {
+  id: string;
+  createdAt: string;
+  amount: number;
+  currency: string;
+  fromName: string;
+  fromUserId: string;
+  fromAccount: string;
+  toName: string;
+  toUserId: string;
+  toAccount: string;
+}
+
+const numeric = (): Schema<number> => (value, path) =>
+  number()(typeof value === 'string' && value.trim() !== '' ? Number(value) : value, path);
+
+const exportedRowSchema = object<ExportedTransactionRow>({
+  id: string(),
+  createdAt: dateString(),
+  amount: numeric(),
+  currency: string(),
+  fromName: string(),
+  fromUserId: string(),
+  fromAccount: string(),
+  toName: string(),
+  toUserId: string(),
+  toAccount: string(),
+});
+
+const apiExportSchema = object<{ data: { transactions: Transaction[] } }>({
+  data: object({ transactions: array(transactionSchema) }),
+});
+
+export type ImportErrorReason = 'unterminatedQuote' | 'emptyCsv' | 'invalidJson' | 'noTransactions' | 'unexpectedFormat';
+
+// `reason` picks the message shown to the user; `detail` is the schema path for `unexpectedFormat`.
+export class ImportError extends Error {
+  constructor(readonly reason: ImportErrorReason, message: string, readonly detail?: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+export interface ImportedParty {
+  // See getPartnerId: the user id, or the account number when the file has no ids.
+  id: string;
+  name: string;
+  accountNumbers: string[];
+  transactionCount: number;
+}
+
+export interface OfflineDataset {
+  transactions: Transaction[];
+  accounts: BankAccount[];
+  user: User;
+}
+
+// The Excel variant of the export is separated with `;`, so the header line decides.
+function detectDelimiter(text: string): ',' | ';' {
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === ',' || char === ';')) return char;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+  }
+  return ',';
+}
+
+// RFC 4180 parser: quoted fields may contain delimiters, doubled quotes and line breaks.
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) throw new ImportError('unterminatedQuote', 'CSV file ends inside a quoted field.');
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell !== ''));
+}
+
+// Undo the formula guard the exporter puts in front of risky text cells.
+const unguard = (value: string) => (/^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value);
+
+function csvToRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new ImportError('emptyCsv', 'CSV file is empty.');
+  return rows.map(cells => Object.fromEntries(header.map((column, index) => [column.trim(), unguard(cells[index] ?? '')])));
+}
+
+function rowToTransaction(row: ExportedTransactionRow): Transaction {
+  return {
+    id: row.id,
+    amount: Math.abs(row.amount),
+    createdAt: row.createdAt,
+    currency: row.currency,
+    from: { number: row.fromAccount, user: { id: row.fromUserId, name: row.fromName } },
+    to: { number: row.toAccount, user: { id: row.toUserId, name: row.toName } },
+  };
+}
+
+function parseJson(text: string): Transaction[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new ImportError('invalidJson', 'File is not valid JSON.');
+  }
+
+  // Raw API response ({ data: { transactions } }) or a plain list of API transactions
+  if (!Array.isArray(value)) return parse(apiExportSchema, value).data.transactions;
+  const first = value[0] as Record<string, unknown> | undefined;
+  if (first && typeof first === 'object' && 'from' in first) return parse(array(transactionSchema), value);
+  return parse(array(exportedRowSchema), value).map(rowToTransaction);
+}
+
+function parseCsvFile(text: string): Transaction[] {
+  return csvToRecords(text).map((record, index) => rowToTransaction(exportedRowSchema(record, `row ${index + 2}`)));
+}
+
+export function parseTransactionsFile(fileName: string, content: string): Transaction[] {
+  const text = content.replace(/^\uFEFF/, '');
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+
+  try {
+    const transactions = isJson ? parseJson(text) : parseCsvFile(text);
+    if (transactions.length === 0) throw new ImportError('noTransactions', 'The file does not contain any transactions.');
+    return transactions;
+  } catch (error) {
+    if (error instanceof SchemaError) throw new ImportError('unexpectedFormat', `Unexpected file format at ${error.message}`, error.message);
+    throw error;
+  }
+}
+
+// Everyone who appears in the file, most active first, as candidates for "me".
+export function listParties(transactions: Transaction[]): ImportedParty[] {
+  const parties = new Map<string, { name: string; accountNumbers: Set<string>; transactionCount: number }>();
+
+  transactions.forEach(tx => {
+    [tx.from, tx.to].forEach(side => {
+      const id = getPartnerId(side);
+      const party = parties.get(id) ?? { name: side.user.name, accountNumbers: new Set<string>(), transactionCount: 0 };
+      party.accountNumbers.add(side.number);
+      party.transactionCount++;
+      parties.set(id, party);
+    });
+  });
+
+  return [...parties.entries()]
+    .map(([id, party]) => ({ id, name: party.name, accountNumbers: [...party.accountNumbers].sort(), transactionCount: party.transactionCount }))
+    .sort((a, b) => b.transactionCount - a.transactionCount);
+}
+
+// A file has no balances, so each owned account starts at zero and ends at its net flow.
+export function buildOfflineDataset(transactions: Transaction[], party: ImportedParty, accountNumbers = party.accountNumbers): OfflineDataset {
+  const owned = new Set(accountNumbers);
+  const accounts = accountNumbers.map(number => {
+    const balance = transactions.reduce((sum, tx) => {
+      if (tx.to.number === number) sum += Math.abs(tx.amount);
+      if (tx.from.number === number) sum -= Math.abs(tx.amount);
+      return sum;
+    }, 0);
+    const currency = transactions.find(tx => tx.from.number === number || tx.to.number === number)?.currency ?? 'CZECHITOKEN';
+    return { id: number, number, balance, currency, user: { id: party.id, name: party.name } };
+  });
+
+  return {
+    transactions: transactions.filter(tx => owned.has(tx.from.number) || owned.has(tx.to.number)),
+    accounts,
+    user: { id: party.id, name: party.name, email: '' },
+  };
+}
@@ -0,0 +1,98 @@
+// Which dashboard widgets are shown, in which order and how wide. Saved per CzechiBank
+// user rather than per connection profile, because profile ids only live as long as the
+// session while the user id stays the same for every login.
+
+export type WidgetId =
+  | 'currency'
+  | 'comparison'
+  | 'categoryRules'
+  | 'budgets'
+  | 'recurring'
+  | 'balance'
+  | 'volume'
+  | 'types'
+  | 'partners'
+  | 'categories'
+  | 'count'
+  | 'runningBalance'
+  | 'stats'
+  | 'table';
+
+// `half` shares a row with the next half-width widget on medium screens and up
+export type WidgetSize = 'half' | 'full';
+
+export interface WidgetLayout {
+  id: WidgetId;
+  visible: boolean;
+  size: WidgetSize;
+}
+
+// In display order
+export type DashboardLayout = WidgetLayout[];
+
+export const DEFAULT_LAYOUT: DashboardLayout = [
+  { id: 'currency', visible: true, size: 'full' },
+  { id: 'comparison', visible: true, size: 'full' },
+  { id: 'categoryRules', visible: true, size: 'full' },
+  { id: 'budgets', visible: true, size: 'full' },
+  { id: 'recurring', visible: true, size: 'full' },
+  { id: 'balance', visible: true, size: 'half' },
+  { id: 'volume', visible: true, size: 'half' },
+  { id: 'types', visible: true, size: 'half' },
+  { id: 'partners', visible: true, size: 'half' },
+  { id: 'categories', visible: true, size: 'full' },
+  { id: 'count', visible: true, size: 'full' },
+  { id: 'runningBalance', visible: true, size: 'full' },
+  { id: 'stats', visible: true, size: 'full' },
+  { id: 'table', visible: true, size: 'full' },
+];
+
+const isWidgetId = (value: unknown): value is WidgetId => DEFAULT_LAYOUT.some(widget => widget.id === value);
+
+// Keeps the known widgets in their saved order and appends the ones the saved layout
+// does not know yet (added in a later version) with their defaults.
+export function normalizeLayout(stored: unknown): DashboardLayout {
+  const layout: DashboardLayout = [];
+  if (Array.isArray(stored)) {
+    for (const entry of stored) {
+      if (!isWidgetId(entry?.id) || layout.some(widget => widget.id === entry.id)) continue;
+      layout.push({ id: entry.id, visible: entry.visible !== false, size: entry.size === 'half' ? 'half' : 'full' });
+    }
+  }
+  return [...layout, ...DEFAULT_LAYOUT.filter(widget => !layout.some(saved => saved.id === widget.id))];
+}
+
+export function moveWidget(layout: DashboardLayout, id: WidgetId, offset: -1 | 1): DashboardLayout {
+  const index = layout.findIndex(widget => widget.id === id);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= layout.length) return layout;
+  const moved = [...layout];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+}
+
+export const isDefaultLayout = (layout: DashboardLayout) =>
+  JSON.stringify(layout) === JSON.stringify(DEFAULT_LAYOUT);
+
+const LAYOUTS_STORAGE_KEY = 'czechibank_layouts';
+
+function loadAllLayouts(): Record<string, unknown> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LAYOUTS_STORAGE_KEY) ?? '{}');
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
+export function loadLayout(userId: string): DashboardLayout {
+  return normalizeLayout(loadAllLayouts()[userId]);
+}
+
+// The default layout is not stored, so a reset also drops the entry
+export function saveLayout(userId: string, layout: DashboardLayout) {
+  const layouts = loadAllLayouts();
+  delete layouts[userId];
+  if (!isDefaultLayout(layout)) layouts[userId] = layout;
+  localStorage.setItem(LAYOUTS_STORAGE_KEY, JSON.stringify(layouts));
+}
@@ -0,0 +1,387 @@
+import type { Message } from '../i18n';
+import type { MessageKey } from './en';
+
+// Czech UI texts, keyed like the English catalog.
+
+export const cs: Record<MessageKey, Message> = {
+  'app.title': 'CzechiBank Analytics',
+  'app.description': 'Prohlížejte a analyzujte své transakce v CzechiBank pomocí interaktivních grafů a statistik',
+  'app.language': 'Jazyk',
+
+  'theme.label': 'Vzhled',
+  'theme.light': 'Světlý',
+  'theme.dark': 'Tmavý',
+  'theme.system': 'Podle systému',
+  'theme.colorBlind': 'Barvy vhodné pro barvoslepé',
+
+  'common.loading': 'Načítání...',
+  'common.close': 'Zavřít',
+  'common.add': 'Přidat',
+  'common.all': 'Vše',
+  'common.received': 'Přijato',
+  'common.sent': 'Odesláno',
+  'common.net': 'Saldo',
+  'common.currency': 'Měna',
+  'common.category': 'Kategorie',
+  'common.partner': 'Protistrana',
+  'common.date': 'Datum',
+  'common.amount': 'Částka',
+  'common.from': 'Odesílatel',
+  'common.to': 'Příjemce',
+  'common.balance': 'Zůstatek',
+  'common.transactions': 'Transakce',
+  'common.transactionCount': { one: '{count} transakce', few: '{count} transakce', many: '{count} transakce', other: '{count} transakcí' },
+  'common.dayCount': { one: '{count} den', few: '{count} dny', many: '{count} dne', other: '{count} dní' },
+  'common.accountCount': { one: '{count} účet', few: '{count} účty', many: '{count} účtu', other: '{count} účtů' },
+  'common.range': '{from} – {to}',
+
+  'direction.incoming': 'Příchozí',
+  'direction.outgoing': 'Odchozí',
+  'direction.internal': 'Interní',
+  'direction.internalTransfer': 'Převod mezi vlastními účty',
+  'direction.any': 'Libovolný směr',
+
+  'login.subtitle': 'Přehled vašich financí a analýza transakcí',
+  'login.savedProfiles': 'Uložené profily',
+  'login.continue': 'Pokračovat',
+  'login.offline': 'nebo pracujte offline',
+  'login.loadingData': 'Načítáme vaše finanční data...',
+
+  'header.account': 'Účet',
+  'header.allAccounts': 'Všechny účty',
+  'header.offline': 'Offline · {file}',
+  'header.logout': 'Odhlásit se',
+
+  'progress.loadedOf': 'Načteno {loaded} z {total} transakcí...',
+  'progress.loadedPage': 'Načteno {loaded} transakcí (stránka {page})...',
+
+  'error.sessionExpired': 'Vaše relace vypršela. Zadejte prosím znovu svůj API klíč.',
+  'error.login': 'Přihlášení se nezdařilo: {message}',
+  'error.unknown': 'neznámá chyba',
+  'error.changeProfile': 'Profil se nepodařilo přepnout',
+  'error.authentication': 'Ověření selhalo. Zkontrolujte prosím svůj API klíč a zkuste to znovu.',
+  'error.notFound': 'API endpoint nebyl nalezen. Ověřte prosím, že API server běží a endpointy jsou správné.',
+  'error.connection': 'Nepodařilo se připojit k API serveru. {message}',
+  'error.fetch': 'Data se nepodařilo načíst: {message}',
+  'error.format': 'API vrátilo data v neočekávaném formátu. {message}',
+  'error.unexpected': 'Došlo k neočekávané chybě. Zkuste to prosím znovu.',
+
+  'history.partialTitle': 'Neúplná historie:',
+  'history.partial': 'zobrazeno transakcí: {count}, protože {reason}. Grafy a statistiky nezahrnují starší transakce.',
+  'history.pageFailed': 'načtení stránky {page} selhalo ({error})',
+  'history.pageLimit': 'načítání skončilo po {pages} stránkách',
+  'history.pagingUnsupported': 'server nepodporuje stránkování a v jedné odpovědi poslal jen část historie',
+  'history.retry': 'Zkusit znovu',
+
+  'accounts.all': 'Všechny účty',
+
+  'dateRange.label': 'Období',
+  'dateRange.all': 'Celá historie',
+  'dateRange.last7': 'Posledních 7 dní',
+  'dateRange.last30': 'Posledních 30 dní',
+  'dateRange.last90': 'Posledních 90 dní',
+  'dateRange.thisMonth': 'Tento měsíc',
+  'dateRange.thisYear': 'Tento rok',
+  'dateRange.custom': 'Vlastní',
+  'dateRange.from': 'Od',
+  'dateRange.to': 'Do',
+  'dateRange.beginning': 'Začátek',
+  'dateRange.today': 'Dnes',
+
+  'granularity.label': 'Časové členění',
+  'granularity.day': 'Den',
+  'granularity.week': 'Týden',
+  'granularity.month': 'Měsíc',
+  'granularity.quarter': 'Čtvrtletí',
+  'granularity.year': 'Rok',
+  'granularity.weekLabel': '{week}. týden {year}',
+  'granularity.quarterLabel': '{quarter}. čtvrtletí {year}',
+
+  'export.as': 'Exportovat jako {format}',
+  'export.csv': 'CSV',
+  'export.excel': 'CSV pro Excel',
+  'export.json': 'JSON',
+
+  'currency.show': 'Zobrazit částky',
+  'currency.native': 'V původní měně (jedna měna)',
+  'currency.converted': 'Přepočtené (všechny měny)',
+  'currency.only': 'Jen {currency}',
+  'currency.allIn': 'Vše v {currency}',
+  'currency.hideRates': 'Skrýt směnné kurzy',
+  'currency.rates': 'Směnné kurzy ({count})',
+  'currency.missingRates': 'Chybí kurz pro {currencies}; tyto transakce jsou vynechány.',
+  'currency.ratesHelp': 'Každý kurz udává hodnotu jedné jednotky v {pivot} a platí od svého data až do novějšího kurzu pro stejnou měnu.',
+  'currency.rate': 'Kurz',
+  'currency.validFrom': 'Platí od',
+  'currency.rateFrom': '{pivot} od',
+  'currency.removeRate': 'Odebrat kurz',
+  'currency.addRate': 'Přidat kurz',
+  'currency.byCurrency': 'Podle měny',
+
+  'comparison.label': 'Porovnat s',
+  'comparison.none': 'Vypnuto',
+  'comparison.previous': 'Předchozí období',
+  'comparison.previousYear': 'Stejné období loni',
+  'comparison.custom': 'Vlastní',
+  'comparison.from': 'Porovnat od',
+  'comparison.to': 'Porovnat do',
+  'comparison.pickRange': 'Vyberte oba dny období, se kterým chcete porovnávat.',
+  'comparison.needsStart': 'Zvolte období s počátečním datem (ne „Celá historie“), aby ho bylo s čím porovnat.',
+  'comparison.metric': 'Ukazatel',
+  'comparison.thisPeriod': 'Toto období',
+  'comparison.before': 'Dříve',
+  'comparison.change': 'Změna',
+  'comparison.new': 'nové',
+  'comparison.topPartners': 'Hlavní protistrany',
+  'comparison.noPartners': 'V tomto období nejsou žádné transakce s protistranami.',
+  'comparison.income': 'Příjmy',
+  'comparison.expense': 'Výdaje',
+  'comparison.net': 'Čistý tok',
+  'comparison.count': 'Transakce',
+
+  'categories.title': 'Kategorie',
+  'categories.summary': '{rules}, {overrides} ručně',
+  'categories.ruleCount': { one: '{count} pravidlo', few: '{count} pravidla', many: '{count} pravidla', other: '{count} pravidel' },
+  'categories.hideRules': 'Skrýt pravidla',
+  'categories.editRules': 'Upravit pravidla',
+  'categories.clearManual': 'Zrušit ručně zvolené kategorie',
+  'categories.remove': 'Odebrat kategorii {category}',
+  'categories.new': 'Nová kategorie',
+  'categories.help': 'Pravidla se procházejí shora dolů a kategorii přiřadí první z nich, jehož vyplněné podmínky všechny platí. Kategorie zvolené ručně v tabulce mají přednost.',
+  'categories.when': 'když',
+  'categories.partnerName': 'Jméno protistrany obsahuje',
+  'categories.partnerAccount': 'Účet protistrany',
+  'categories.minAmount': 'Minimální částka',
+  'categories.maxAmount': 'Maximální částka',
+  'categories.min': 'Min',
+  'categories.max': 'Max',
+  'categories.direction': 'Směr',
+  'categories.moveUp': 'Posunout pravidlo výš',
+  'categories.removeRule': 'Odebrat pravidlo',
+  'categories.addRule': 'Přidat pravidlo',
+  'categories.uncategorized': 'Bez kategorie',
+  'categories.salary': 'Mzda',
+  'categories.housing': 'Bydlení',
+  'categories.groceries': 'Potraviny',
+  'categories.subscriptions': 'Předplatné',
+  'categories.savings': 'Spoření',
+  'categories.transfers': 'Převody',
+  'categories.other': 'Ostatní',
+
+  'layout.title': 'Rozvržení',
+  'layout.summary': 'zobrazeno {visible} z {count}',
+  'layout.customize': 'Upravit',
+  'layout.done': 'Hotovo',
+  'layout.reset': 'Obnovit výchozí',
+  'layout.width': 'Šířka: {widget}',
+  'layout.size.half': 'Poloviční šířka',
+  'layout.size.full': 'Plná šířka',
+  'layout.moveUp': 'Posunout nahoru: {widget}',
+  'layout.moveDown': 'Posunout dolů: {widget}',
+  'layout.widget.currency': 'Měny a kurzy',
+  'layout.widget.comparison': 'Porovnání období',
+  'layout.widget.categoryRules': 'Pravidla kategorií',
+  'layout.widget.budgets': 'Rozpočty',
+  'layout.widget.recurring': 'Opakované platby',
+  'layout.widget.balance': 'Vývoj zůstatku',
+  'layout.widget.volume': 'Objem transakcí',
+  'layout.widget.types': 'Typy transakcí',
+  'layout.widget.partners': 'Nejčastější partneři',
+  'layout.widget.categories': 'Rozdělení podle kategorií',
+  'layout.widget.count': 'Počet transakcí',
+  'layout.widget.runningBalance': 'Průběžný zůstatek',
+  'layout.widget.stats': 'Statistiky',
+  'layout.widget.table': 'Tabulka transakcí',
+
+  'budgets.title': 'Rozpočty',
+  'budgets.attention': {
+    one: '{count} rozpočet vyžaduje pozornost',
+    few: '{count} rozpočty vyžadují pozornost',
+    many: '{count} rozpočtu vyžaduje pozornost',
+    other: '{count} rozpočtů vyžaduje pozornost',
+  },
+  'budgets.previousMonth': 'Předchozí měsíc',
+  'budgets.nextMonth': 'Další měsíc',
+  'budgets.empty': 'Zatím žádné rozpočty. Níže přidejte měsíční limit pro kategorii nebo protistranu.',
+  'budgets.ok': 'V pořádku',
+  'budgets.atRisk': 'Hrozí překročení',
+  'budgets.exceeded': 'Překročeno',
+  'budgets.remove': 'Odebrat rozpočet {name}',
+  'budgets.projected': 'Odhad {amount}',
+  'budgets.spent': 'Utraceno {spent} z {limit}',
+  'budgets.left': 'zbývá {amount}',
+  'budgets.over': 'přečerpáno o {amount}',
+  'budgets.projectedSuffix': ' · odhad {amount}',
+  'budgets.for': 'Rozpočet pro',
+  'budgets.partnerName': 'Vyberte protistranu',
+  'budgets.monthlyLimit': 'Měsíční limit',
+  'budgets.add': 'Přidat rozpočet',
+
+  'recurring.title': 'Pravidelné platby',
+  'recurring.missing': '{partner}: platba očekávaná {date} má zpoždění {late}',
+  'recurring.amountChanged': '{partner}: poslední platba byla {amount}, obvykle {average}',
+  'recurring.empty': 'Žádné pravidelné platby nenalezeny. Série potřebuje alespoň tři platby na stejný účet s podobnou částkou v pravidelném intervalu.',
+  'recurring.cadence': 'Frekvence',
+  'recurring.average': 'Průměr',
+  'recurring.last': 'Poslední',
+  'recurring.payments': 'Plateb',
+  'recurring.nextExpected': 'Další očekávaná',
+  'recurring.ended': 'Skončila po {date}',
+  'recurring.weekly': 'Týdně',
+  'recurring.biweekly': 'Každé 2 týdny',
+  'recurring.monthly': 'Měsíčně',
+  'recurring.quarterly': 'Čtvrtletně',
+  'recurring.yearly': 'Ročně',
+
+  'anomalies.unusual': 'Neobvyklá',
+  'anomalies.dot': {
+    one: '{count} neobvyklá transakce',
+    few: '{count} neobvyklé transakce',
+    many: '{count} neobvyklé transakce',
+    other: '{count} neobvyklých transakcí',
+  },
+  'anomalies.partnerAmount': 'Neobvyklá částka pro tuto protistranu, obvykle kolem {typical}',
+  'anomalies.overallAmount': 'Mnohem vyšší než obvykle (typicky {typical})',
+  'anomalies.unusualTime': 'Provedeno v {hour}:00, kdy transakce máte jen zřídka',
+  'anomalies.newCounterparty': 'První transakce s protistranou {name}',
+
+  'charts.balanceOverTime': 'Vývoj zůstatku',
+  'charts.balanceIn': 'Zůstatek ({currency})',
+  'charts.comparisonPeriod': 'Srovnávací období',
+  'charts.volume.day': 'Denní objem transakcí',
+  'charts.volume.week': 'Týdenní objem transakcí',
+  'charts.volume.month': 'Měsíční objem transakcí',
+  'charts.volume.quarter': 'Čtvrtletní objem transakcí',
+  'charts.volume.year': 'Roční objem transakcí',
+  'charts.typeDistribution': 'Rozdělení podle typu transakce',
+  'charts.type.incoming': 'Příjmy',
+  'charts.type.outgoing': 'Výdaje',
+  'charts.type.internal': 'Převody mezi účty',
+  'charts.topPartners': 'Hlavní protistrany',
+  'charts.allPartners': 'Všechny protistrany',
+  'charts.categoryBreakdown': 'Rozdělení podle kategorií',
+  'charts.count.day': 'Denní počet transakcí',
+  'charts.count.week': 'Týdenní počet transakcí',
+  'charts.count.month': 'Měsíční počet transakcí',
+  'charts.count.quarter': 'Čtvrtletní počet transakcí',
+  'charts.count.year': 'Roční počet transakcí',
+  'charts.count': 'Počet',
+  'charts.numberOfTransactions': 'Počet transakcí',
+  'charts.runningBalance': 'Průběžný zůstatek a objem transakcí',
+  'charts.runningBalanceLine': 'Průběžný zůstatek',
+  'charts.forecastRange': 'Rozpětí odhadu (80 %)',
+  'charts.forecast': 'Odhad',
+
+  'forecast.horizon': 'Horizont odhadu',
+  'forecast.expected': 'Očekáváno k {date}:',
+  'forecast.alreadyZero': 'Zůstatek už je na nule nebo pod ní',
+  'forecast.hitsZero': 'Klesne na nulu za {days} ({date})',
+  'forecast.staysAbove': 'Zůstane nad nulou po celých {days}',
+
+  'stats.title': 'Statistiky transakcí',
+  'stats.total': 'Počet transakcí',
+  'stats.volume': 'Celkový objem',
+  'stats.average': 'Průměrná částka',
+  'stats.largest': 'Největší transakce',
+  'stats.smallest': 'Nejmenší transakce',
+
+  'table.search': 'Hledat',
+  'table.searchPlaceholder': 'Jméno protistrany nebo číslo účtu',
+  'table.minAmount': 'Minimální částka',
+  'table.maxAmount': 'Maximální částka',
+  'table.direction': 'Směr',
+  'table.clearFilters': 'Zrušit filtry',
+  'table.matching': 'Filtrům odpovídá {matching} z {count} transakcí',
+  'table.overBudget': 'Nad rozpočet',
+  'table.budgetAtRisk': 'Ohrožený rozpočet',
+  'table.budgetSpent': '{name}: utraceno {spent} z {limit}',
+  'table.useRules': 'Podle pravidel',
+  'table.empty': 'Aktuálním filtrům neodpovídají žádné transakce.',
+  'table.rowsPerPage': 'Řádků na stránku',
+  'table.page': 'Stránka {page} z {pages}',
+  'table.previousPage': 'Předchozí stránka',
+  'table.nextPage': 'Další stránka',
+
+  'connection.baseUrl': 'Vyberte základní URL API',
+  'connection.done': 'Hotovo',
+  'connection.customEnvironments': 'Vlastní prostředí',
+  'connection.selectProvider': 'Vyberte poskytovatele API',
+  'connection.noCustom': 'Zatím žádná vlastní prostředí. Přidejte třeba backend běžící na vašem počítači.',
+  'connection.remove': 'Odebrat {name}',
+  'connection.environmentName': 'Název prostředí',
+  'connection.environmentUrl': 'Základní URL prostředí',
+  'connection.name': 'Název',
+  'connection.invalidUrl': 'Zadejte absolutní http(s) URL, např. http://localhost:4000/api/v1',
+  'connection.duplicateUrl': 'Tato URL už v seznamu je',
+  'connection.unknownLinkedEnvironment': 'Otevřený odkaz míří na {host}, který mezi vašimi prostředími není, proto nebyl vybrán. API klíč posílejte jen na server, kterému důvěřujete.',
+  'connection.apiKey': 'Pro pokračování zadejte svůj API klíč',
+  'connection.apiKeyPlaceholder': 'Sem vložte API klíč',
+  'connection.mockHelp': 'Funguje jakýkoli klíč. Data upravíte např. pomocí',
+  'connection.mockFailures': 'a chyby vyvoláte přes',
+  'connection.profileName': 'Název profilu',
+  'connection.optional': '(nepovinné)',
+  'connection.profilePlaceholder': 'např. Praha – osobní',
+
+  'profiles.select': 'Profil připojení',
+  'profiles.add': 'Přidat profil',
+  'profiles.forget': 'Zapomenout profil {name}',
+  'profiles.forgetThis': 'Zapomenout tento profil',
+  'profiles.saveAndSwitch': 'Uložit a přepnout',
+
+  'offline.drop': 'Přetáhněte sem exportovaný soubor CSV nebo JSON, nebo klikněte a vyberte ho',
+  'offline.file': '{file} ({count})',
+  'offline.readError': 'Soubor se nepodařilo přečíst.',
+  'offline.error.unterminatedQuote': 'Soubor CSV končí uvnitř pole v uvozovkách.',
+  'offline.error.emptyCsv': 'Soubor CSV je prázdný.',
+  'offline.error.invalidJson': 'Soubor není platný JSON.',
+  'offline.error.noTransactions': 'Soubor neobsahuje žádné transakce.',
+  'offline.error.unexpectedFormat': 'Neočekávaný formát souboru v {detail}',
+  'offline.who': 'Kdo jste v tomto souboru?',
+  'offline.party': '{name} ({count})',
+  'offline.accounts': 'Účty, které jsou vaše',
+  'offline.allAccounts': 'Všechny účty ({count})',
+  'offline.help': 'Zůstatky jsou dopočítané ze souboru a předpokládají, že každý účet začínal na nule.',
+  'offline.open': 'Otevřít offline přehled',
+
+  'drillDown.dashboard': 'Přehled',
+  'drillDown.signedOut': 'Nejste přihlášeni.',
+  'drillDown.error': 'Data se nepodařilo načíst.',
+  'drillDown.goToDashboard': 'Přejít na přehled',
+
+  'partners.title': 'Protistrany',
+  'partners.subtitle': {
+    one: '{count} protistrana napříč všemi účty',
+    few: '{count} protistrany napříč všemi účty',
+    many: '{count} protistrany napříč všemi účty',
+    other: '{count} protistran napříč všemi účty',
+  },
+  'partners.search': 'Hledat protistrany',
+  'partners.searchPlaceholder': 'Hledat podle jména nebo účtu',
+  'partners.accounts': 'Účty',
+  'partners.empty': 'Žádné protistrany nenalezeny.',
+  'partners.all': 'Všechny protistrany',
+  'partner.unknown': 'Neznámá protistrana',
+  'partner.accounts': 'Účty: {accounts}',
+  'partner.empty': 'S touto protistranou nejsou žádné transakce.',
+  'partner.flows': 'Vývoj toků',
+  'partner.netBalance': 'Čistý zůstatek',
+  'partner.history': 'Historie',
+  'partner.yourAccount': 'Váš účet',
+  'partner.theirAccount': 'Jejich účet',
+
+  'transaction.title': 'Transakce',
+  'transaction.detail': 'Detail transakce',
+  'transaction.openPage': 'Otevřít stránku',
+  'transaction.notLoaded': 'Tato transakce není v načtené historii.',
+  'transaction.linkCopied': 'Odkaz zkopírován',
+  'transaction.copyLink': 'Kopírovat odkaz',
+  'transaction.copyFailed': 'Odkaz se nepodařilo zkopírovat automaticky. Zkopírujte ho z pole níže.',
+  'transaction.user': 'Uživatel {id}',
+  'transaction.account': 'Účet',
+  'transaction.before': 'Před',
+  'transaction.after': 'Po',
+  'transaction.balanceHelp': 'Dopočítáno zpětně od aktuálního zůstatku, takže je přesné jen při načtené celé historii.',
+  'transaction.related': 'Okolo tohoto data se stejnou protistranou',
+  'transaction.noRelated': 'Žádné další transakce v rozmezí 30 dní.',
+  'transaction.record': 'Záznam',
+};
@@ -0,0 +1,374 @@
+import type { Message } from '../i18n';
+
+// English UI texts. The Czech catalog must have the same keys; `{name}` is replaced with
+// the value passed to `t`, numbers are formatted for the locale.
+
+export const en = {
+  'app.title': 'CzechiBank Analytics',
+  'app.description': 'View and analyze your CzechiBank transactions with interactive charts and statistics',
+  'app.language': 'Language',
+
+  'theme.label': 'Theme',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.system': 'Follow the system',
+  'theme.colorBlind': 'Color-blind safe colors',
+
+  'common.loading': 'Loading...',
+  'common.close': 'Close',
+  'common.add': 'Add',
+  'common.all': 'All',
+  'common.received': 'Received',
+  'common.sent': 'Sent',
+  'common.net': 'Net',
+  'common.currency': 'Currency',
+  'common.category': 'Category',
+  'common.partner': 'Partner',
+  'common.date': 'Date',
+  'common.amount': 'Amount',
+  'common.from': 'From',
+  'common.to': 'To',
+  'common.balance': 'Balance',
+  'common.transactions': 'Transactions',
+  'common.transactionCount': { one: '{count} transaction', other: '{count} transactions' },
+  'common.dayCount': { one: '{count} day', other: '{count} days' },
+  'common.accountCount': { one: '{count} account', other: '{count} accounts' },
+  'common.range': '{from} – {to}',
+
+  'direction.incoming': 'Incoming',
+  'direction.outgoing': 'Outgoing',
+  'direction.internal': 'Internal',
+  'direction.internalTransfer': 'Internal transfer',
+  'direction.any': 'Any direction',
+
+  'login.subtitle': 'Access your financial insights and transaction analysis',
+  'login.savedProfiles': 'Saved profiles',
+  'login.continue': 'Continue',
+  'login.offline': 'or work offline',
+  'login.loadingData': 'Loading your financial data...',
+
+  'header.account': 'Account',
+  'header.allAccounts': 'All accounts',
+  'header.offline': 'Offline · {file}',
+  'header.logout': 'Logout',
+
+  'progress.loadedOf': 'Loaded {loaded} of {total} transactions...',
+  'progress.loadedPage': 'Loaded {loaded} transactions (page {page})...',
+
+  'error.sessionExpired': 'Your session expired. Please enter your API key again.',
+  'error.login': 'Could not log in: {message}',
+  'error.unknown': 'unknown error',
+  'error.changeProfile': 'Could not change profile',
+  'error.authentication': 'Authentication failed. Please check your API key and try again.',
+  'error.notFound': 'API endpoint not found. Please verify the API server is running and the endpoints are correct.',
+  'error.connection': 'Could not connect to the API server. {message}',
+  'error.fetch': 'Failed to fetch data: {message}',
+  'error.format': 'The API returned data in an unexpected format. {message}',
+  'error.unexpected': 'An unexpected error occurred. Please try again.',
+
+  'history.partialTitle': 'Partial history:',
+  'history.partial': 'showing {count} transactions because {reason}. Charts and statistics do not cover older transactions.',
+  'history.pageFailed': 'loading page {page} failed ({error})',
+  'history.pageLimit': 'stopped after {pages} pages',
+  'history.pagingUnsupported': 'the server does not support paging and sent only part of the history in one response',
+  'history.retry': 'Retry',
+
+  'accounts.all': 'All accounts',
+
+  'dateRange.label': 'Period',
+  'dateRange.all': 'All time',
+  'dateRange.last7': 'Last 7 days',
+  'dateRange.last30': 'Last 30 days',
+  'dateRange.last90': 'Last 90 days',
+  'dateRange.thisMonth': 'This month',
+  'dateRange.thisYear': 'This year',
+  'dateRange.custom': 'Custom',
+  'dateRange.from': 'From',
+  'dateRange.to': 'To',
+  'dateRange.beginning': 'Beginning',
+  'dateRange.today': 'Today',
+
+  'granularity.label': 'Time granularity',
+  'granularity.day': 'Day',
+  'granularity.week': 'Week',
+  'granularity.month': 'Month',
+  'granularity.quarter': 'Quarter',
+  'granularity.year': 'Year',
+  'granularity.weekLabel': 'W{week} {year}',
+  'granularity.quarterLabel': 'Q{quarter} {year}',
+
+  'export.as': 'Export as {format}',
+  'export.csv': 'CSV',
+  'export.excel': 'Excel CSV',
+  'export.json': 'JSON',
+
+  'currency.show': 'Show amounts',
+  'currency.native': 'Native (single currency)',
+  'currency.converted': 'Converted (all currencies)',
+  'currency.only': 'Only {currency}',
+  'currency.allIn': 'All in {currency}',
+  'currency.hideRates': 'Hide exchange rates',
+  'currency.rates': 'Exchange rates ({count})',
+  'currency.missingRates': 'No rate for {currencies}; those transactions are left out.',
+  'currency.ratesHelp': 'Each rate is the value of one unit in {pivot} and applies from its date until a newer rate for the same currency.',
+  'currency.rate': 'Rate',
+  'currency.validFrom': 'Valid from',
+  'currency.rateFrom': '{pivot} from',
+  'currency.removeRate': 'Remove rate',
+  'currency.addRate': 'Add rate',
+  'currency.byCurrency': 'By currency',
+
+  'comparison.label': 'Compare with',
+  'comparison.none': 'Off',
+  'comparison.previous': 'Previous period',
+  'comparison.previousYear': 'Same period last year',
+  'comparison.custom': 'Custom',
+  'comparison.from': 'Compare from',
+  'comparison.to': 'Compare to',
+  'comparison.pickRange': 'Pick both days of the range to compare with.',
+  'comparison.needsStart': 'Choose a period with a start date (not "All time") to compare it with an earlier one.',
+  'comparison.metric': 'Metric',
+  'comparison.thisPeriod': 'This period',
+  'comparison.before': 'Before',
+  'comparison.change': 'Change',
+  'comparison.new': 'new',
+  'comparison.topPartners': 'Top partners',
+  'comparison.noPartners': 'No partner transactions in this period.',
+  'comparison.income': 'Income',
+  'comparison.expense': 'Expense',
+  'comparison.net': 'Net flow',
+  'comparison.count': 'Transactions',
+
+  'categories.title': 'Categories',
+  'categories.summary': '{rules}, {overrides} manual',
+  'categories.ruleCount': { one: '{count} rule', other: '{count} rules' },
+  'categories.hideRules': 'Hide rules',
+  'categories.editRules': 'Edit rules',
+  'categories.clearManual': 'Clear manual categories',
+  'categories.remove': 'Remove category {category}',
+  'categories.new': 'New category',
+  'categories.help': 'Rules are checked from top to bottom and the first one whose filled-in conditions all match assigns its category. Categories picked by hand in the table take precedence.',
+  'categories.when': 'when',
+  'categories.partnerName': 'Partner name contains',
+  'categories.partnerAccount': 'Partner account',
+  'categories.minAmount': 'Min amount',
+  'categories.maxAmount': 'Max amount',
+  'categories.min': 'Min',
+  'categories.max': 'Max',
+  'categories.direction': 'Direction',
+  'categories.moveUp': 'Move rule up',
+  'categories.removeRule': 'Remove rule',
+  'categories.addRule': 'Add rule',
+  'categories.uncategorized': 'Uncategorized',
+  'categories.salary': 'Salary',
+  'categories.housing': 'Housing',
+  'categories.groceries': 'Groceries',
+  'categories.subscriptions': 'Subscriptions',
+  'categories.savings': 'Savings',
+  'categories.transfers': 'Transfers',
+  'categories.other': 'Other',
+
+  'layout.title': 'Layout',
+  'layout.summary': '{visible} of {count} widgets shown',
+  'layout.customize': 'Customize',
+  'layout.done': 'Done',
+  'layout.reset': 'Reset to default',
+  'layout.width': 'Width of {widget}',
+  'layout.size.half': 'Half width',
+  'layout.size.full': 'Full width',
+  'layout.moveUp': 'Move {widget} up',
+  'layout.moveDown': 'Move {widget} down',
+  'layout.widget.currency': 'Currencies and exchange rates',
+  'layout.widget.comparison': 'Period comparison',
+  'layout.widget.categoryRules': 'Category rules',
+  'layout.widget.budgets': 'Budgets',
+  'layout.widget.recurring': 'Recurring payments',
+  'layout.widget.balance': 'Balance over time',
+  'layout.widget.volume': 'Transaction volume',
+  'layout.widget.types': 'Transaction types',
+  'layout.widget.partners': 'Top partners',
+  'layout.widget.categories': 'Category breakdown',
+  'layout.widget.count': 'Transaction count',
+  'layout.widget.runningBalance': 'Running balance',
+  'layout.widget.stats': 'Statistics',
+  'layout.widget.table': 'Transactions table',
+
+  'budgets.title': 'Budgets',
+  'budgets.attention': { one: '{count} budget needs attention', other: '{count} budgets need attention' },
+  'budgets.previousMonth': 'Previous month',
+  'budgets.nextMonth': 'Next month',
+  'budgets.empty': 'No budgets yet. Add a monthly limit for a category or a partner below.',
+  'budgets.ok': 'On track',
+  'budgets.atRisk': 'Projected over budget',
+  'budgets.exceeded': 'Over budget',
+  'budgets.remove': 'Remove budget {name}',
+  'budgets.projected': 'Projected {amount}',
+  'budgets.spent': 'Spent {spent} of {limit}',
+  'budgets.left': '{amount} left',
+  'budgets.over': '{amount} over',
+  'budgets.projectedSuffix': ' · projected {amount}',
+  'budgets.for': 'Budget for',
+  'budgets.partnerName': 'Choose a partner',
+  'budgets.monthlyLimit': 'Monthly limit',
+  'budgets.add': 'Add budget',
+
+  'recurring.title': 'Recurring Payments',
+  'recurring.missing': '{partner}: payment expected on {date} is {late} late',
+  'recurring.amountChanged': '{partner}: last payment was {amount}, usually {average}',
+  'recurring.empty': 'No recurring payments found. A series needs at least three payments to the same account with similar amounts at a regular interval.',
+  'recurring.cadence': 'Cadence',
+  'recurring.average': 'Average',
+  'recurring.last': 'Last',
+  'recurring.payments': 'Payments',
+  'recurring.nextExpected': 'Next expected',
+  'recurring.ended': 'Ended after {date}',
+  'recurring.weekly': 'Weekly',
+  'recurring.biweekly': 'Every 2 weeks',
+  'recurring.monthly': 'Monthly',
+  'recurring.quarterly': 'Quarterly',
+  'recurring.yearly': 'Yearly',
+
+  'anomalies.unusual': 'Unusual',
+  'anomalies.dot': { one: '{count} unusual transaction', other: '{count} unusual transactions' },
+  'anomalies.partnerAmount': 'Unusual amount for this partner, usually about {typical}',
+  'anomalies.overallAmount': 'Much larger than your typical {typical}',
+  'anomalies.unusualTime': 'Made at {hour}:00, when you rarely have transactions',
+  'anomalies.newCounterparty': 'First transaction with {name}',
+
+  'charts.balanceOverTime': 'Balance Over Time',
+  'charts.balanceIn': 'Balance ({currency})',
+  'charts.comparisonPeriod': 'Comparison period',
+  'charts.volume.day': 'Daily Transaction Volume',
+  'charts.volume.week': 'Weekly Transaction Volume',
+  'charts.volume.month': 'Monthly Transaction Volume',
+  'charts.volume.quarter': 'Quarterly Transaction Volume',
+  'charts.volume.year': 'Yearly Transaction Volume',
+  'charts.typeDistribution': 'Transaction Type Distribution',
+  'charts.type.incoming': 'Income',
+  'charts.type.outgoing': 'Expense',
+  'charts.type.internal': 'Internal Transfer',
+  'charts.topPartners': 'Top Transaction Partners',
+  'charts.allPartners': 'All partners',
+  'charts.categoryBreakdown': 'Category Breakdown',
+  'charts.count.day': 'Daily Transaction Count',
+  'charts.count.week': 'Weekly Transaction Count',
+  'charts.count.month': 'Monthly Transaction Count',
+  'charts.count.quarter': 'Quarterly Transaction Count',
+  'charts.count.year': 'Yearly Transaction Count',
+  'charts.count': 'Count',
+  'charts.numberOfTransactions': 'Number of Transactions',
+  'charts.runningBalance': 'Running Balance vs Transaction Volume',
+  'charts.runningBalanceLine': 'Running Balance',
+  'charts.forecastRange': 'Forecast range (80 %)',
+  'charts.forecast': 'Forecast',
+
+  'forecast.horizon': 'Forecast horizon',
+  'forecast.expected': 'Expected on {date}:',
+  'forecast.alreadyZero': 'Balance is already at or below zero',
+  'forecast.hitsZero': 'Hits zero in {days} ({date})',
+  'forecast.staysAbove': 'Stays above zero for the next {days}',
+
+  'stats.title': 'Transaction Statistics',
+  'stats.total': 'Total Transactions',
+  'stats.volume': 'Total Volume',
+  'stats.average': 'Average Amount',
+  'stats.largest': 'Largest Transaction',
+  'stats.smallest': 'Smallest Transaction',
+
+  'table.search': 'Search',
+  'table.searchPlaceholder': 'Partner name or account number',
+  'table.minAmount': 'Min amount',
+  'table.maxAmount': 'Max amount',
+  'table.direction': 'Direction',
+  'table.clearFilters': 'Clear filters',
+  'table.matching': '{matching} of {count} transactions match',
+  'table.overBudget': 'Over budget',
+  'table.budgetAtRisk': 'Budget at risk',
+  'table.budgetSpent': '{name}: {spent} of {limit} spent',
+  'table.useRules': 'Use rules',
+  'table.empty': 'No transactions match the current filters.',
+  'table.rowsPerPage': 'Rows per page',
+  'table.page': 'Page {page} of {pages}',
+  'table.previousPage': 'Previous page',
+  'table.nextPage': 'Next page',
+
+  'connection.baseUrl': 'Select API Base URL',
+  'connection.done': 'Done',
+  'connection.customEnvironments': 'Custom environments',
+  'connection.selectProvider': 'Select API Provider',
+  'connection.noCustom': 'No custom environments yet. Add e.g. a backend running on your machine.',
+  'connection.remove': 'Remove {name}',
+  'connection.environmentName': 'Environment name',
+  'connection.environmentUrl': 'Environment base URL',
+  'connection.name': 'Name',
+  'connection.invalidUrl': 'Enter an absolute http(s) URL, e.g. http://localhost:4000/api/v1',
+  'connection.duplicateUrl': 'This URL is already in the list',
+  'connection.unknownLinkedEnvironment': 'The link you opened points to {host}, which is not one of your environments, so it was not selected. Only send your API key to a host you trust.',
+  'connection.apiKey': 'Enter your API Key to continue',
+  'connection.apiKeyPlaceholder': 'Your API Key here',
+  'connection.mockHelp': 'Any key works. Tune the data with e.g.',
+  'connection.mockFailures': 'or inject failures with',
+  'connection.profileName': 'Profile name',
+  'connection.optional': '(optional)',
+  'connection.profilePlaceholder': 'e.g. Praha – personal',
+
+  'profiles.select': 'Connection profile',
+  'profiles.add': 'Add profile',
+  'profiles.forget': 'Forget profile {name}',
+  'profiles.forgetThis': 'Forget this profile',
+  'profiles.saveAndSwitch': 'Save and switch',
+
+  'offline.drop': 'Drop an exported CSV or JSON file, or click to browse',
+  'offline.file': '{file} ({count})',
+  'offline.readError': 'Could not read the file.',
+  'offline.error.unterminatedQuote': 'CSV file ends inside a quoted field.',
+  'offline.error.emptyCsv': 'CSV file is empty.',
+  'offline.error.invalidJson': 'File is not valid JSON.',
+  'offline.error.noTransactions': 'The file does not contain any transactions.',
+  'offline.error.unexpectedFormat': 'Unexpected file format at {detail}',
+  'offline.who': 'Who are you in this file?',
+  'offline.party': '{name} ({count})',
+  'offline.accounts': 'Accounts that count as yours',
+  'offline.allAccounts': 'All {count} accounts',
+  'offline.help': 'Balances are reconstructed from the file and assume every account started at zero.',
+  'offline.open': 'Open offline dashboard',
+
+  'drillDown.dashboard': 'Dashboard',
+  'drillDown.signedOut': 'You are not logged in.',
+  'drillDown.error': 'The data could not be loaded.',
+  'drillDown.goToDashboard': 'Go to the dashboard',
+
+  'partners.title': 'Partners',
+  'partners.subtitle': { one: '{count} counterparty across all accounts', other: '{count} counterparties across all accounts' },
+  'partners.search': 'Search partners',
+  'partners.searchPlaceholder': 'Search by name or account',
+  'partners.accounts': 'Accounts',
+  'partners.empty': 'No partners found.',
+  'partners.all': 'All partners',
+  'partner.unknown': 'Unknown partner',
+  'partner.accounts': 'Accounts: {accounts}',
+  'partner.empty': 'No transactions with this partner.',
+  'partner.flows': 'Flows Over Time',
+  'partner.netBalance': 'Net balance',
+  'partner.history': 'History',
+  'partner.yourAccount': 'Your account',
+  'partner.theirAccount': 'Their account',
+
+  'transaction.title': 'Transaction',
+  'transaction.detail': 'Transaction detail',
+  'transaction.openPage': 'Open page',
+  'transaction.notLoaded': 'This transaction is not in the loaded history.',
+  'transaction.linkCopied': 'Link copied',
+  'transaction.copyLink': 'Copy link',
+  'transaction.copyFailed': 'The link could not be copied automatically. Copy it from the field below.',
+  'transaction.user': 'User {id}',
+  'transaction.account': 'Account',
+  'transaction.before': 'Before',
+  'transaction.after': 'After',
+  'transaction.balanceHelp': 'Rewound from the current balance, so it is only exact when the whole history is loaded.',
+  'transaction.related': 'Around this date with the same partner',
+  'transaction.noRelated': 'No other transactions within 30 days.',
+  'transaction.record': 'Record',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
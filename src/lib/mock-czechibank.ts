@@ -0,0 +1,247 @@
+import type { BankAccount, Transaction, User } from './czechibank';
+
+// Deterministic fake CzechiBank backend served by the route handlers under MOCK_BASE_URL.
+//
+// The API key doubles as the configuration, so everything can be driven from the login
+// screen, e.g. `seed=7;partners=12;months=24;currencies=CZECHITOKEN,EUR;error=401`.
+// Query parameters with the same names override the key (handy with curl).
+
+export type MockEndpoint = 'transactions' | 'bank-account' | 'user';
+
+export interface MockConfig {
+  seed: number;
+  partners: number;
+  months: number;
+  accounts: number;
+  currencies: string[];
+  // Last day of generated history as YYYY-MM-DD; defaults to today so date presets work.
+  until?: string;
+  // Respond with this HTTP status instead of data.
+  error?: number;
+  // Limit `error` to one endpoint.
+  errorEndpoint?: MockEndpoint;
+  // Fail this page of /transactions with a 500 to exercise partial history handling.
+  failPage?: number;
+  // Artificial latency in milliseconds.
+  delay: number;
+}
+
+export const DEFAULT_MOCK_CONFIG: MockConfig = {
+  seed: 42,
+  partners: 8,
+  months: 12,
+  accounts: 2,
+  currencies: ['CZECHITOKEN'],
+  delay: 0,
+};
+
+const MAX_DELAY = 30_000;
+
+const clampInt = (value: string, min: number, max: number) => {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isNaN(parsed) ? undefined : Math.min(max, Math.max(min, parsed));
+};
+
+function applyOption(config: MockConfig, key: string, value: string): MockConfig {
+  switch (key) {
+    case 'seed':
+      return { ...config, seed: clampInt(value, 0, 2 ** 31) ?? config.seed };
+    case 'partners':
+      return { ...config, partners: clampInt(value, 1, 100) ?? config.partners };
+    case 'months':
+      return { ...config, months: clampInt(value, 1, 120) ?? config.months };
+    case 'accounts':
+      return { ...config, accounts: clampInt(value, 1, 10) ?? config.accounts };
+    case 'currencies': {
+      const currencies = value.split(/[,|]/).map(currency => currency.trim().toUpperCase()).filter(Boolean);
+      return currencies.length > 0 ? { ...config, currencies } : config;
+    }
+    case 'until':
+      return /^\d{4}-\d{2}-\d{2}$/.test(value) ? { ...config, until: value } : config;
+    case 'error':
+      return { ...config, error: clampInt(value, 400, 599) };
+    case 'errorEndpoint':
+      return ['transactions', 'bank-account', 'user'].includes(value) ? { ...config, errorEndpoint: value as MockEndpoint } : config;
+    case 'failPage':
+      return { ...config, failPage: clampInt(value, 1, 10_000) };
+    case 'delay':
+      return { ...config, delay: clampInt(value, 0, MAX_DELAY) ?? config.delay };
+    default:
+      return config;
+  }
+}
+
+export function parseMockConfig(apiKey: string, searchParams?: URLSearchParams): MockConfig {
+  let config = DEFAULT_MOCK_CONFIG;
+  apiKey.split(';').forEach(pair => {
+    const [key, ...rest] = pair.split('=');
+    if (rest.length > 0) config = applyOption(config, key.trim(), rest.join('=').trim());
+  });
+  searchParams?.forEach((value, key) => {
+    config = applyOption(config, key, value);
+  });
+  return config;
+}
+
+// mulberry32: tiny seeded PRNG, good enough for fake data and stable across runs.
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: T[]) => items[Math.floor(next() * items.length)],
+  };
+}
+
+const PEOPLE = ['Jana Nováková', 'Petr Svoboda', 'Lucie Dvořáková', 'Tomáš Černý', 'Eva Procházková', 'Martin Kučera', 'Tereza Veselá', 'Jakub Horák', 'Kateřina Marková', 'Ondřej Pokorný'];
+const COMPANIES = ['Czechitas z.s.', 'Kavárna U Kódu', 'Byty Ostrava s.r.o.', 'Streamflix', 'Fitko Praha', 'Tramvaje a.s.'];
+
+const MOCK_USER_ID = 'mock-user';
+
+export interface MockDataset {
+  user: User;
+  accounts: BankAccount[];
+  // Newest first, like the real API.
+  transactions: Transaction[];
+}
+
+const accountNumber = (index: number) => `${String(1000000000 + index * 7919).padStart(10, '0')}/5555`;
+
+export function generateMockDataset(config: MockConfig, today = new Date()): MockDataset {
+  const random = createRandom(config.seed);
+  const user: User = { id: MOCK_USER_ID, name: 'Mock User', email: 'mock.user@czechibank.local' };
+  const owner = { id: user.id, name: user.name };
+
+  const own = Array.from({ length: config.accounts }, (_, index) => ({
+    number: accountNumber(index),
+    currency: config.currencies[index % config.currencies.length],
+  }));
+
+  const partners = Array.from({ length: config.partners }, (_, index) => {
+    const isCompany = index < COMPANIES.length && index % 2 === 0;
+    return {
+      user: {
+        id: `mock-partner-${index + 1}`,
+        name: isCompany ? COMPANIES[index] : random.pick(PEOPLE),
+      },
+      number: accountNumber(100 + index),
+      currency: config.currencies[index % config.currencies.length],
+      typicalAmount: random.int(2, 30) * 20,
+    };
+  });
+
+  const end = config.until ? new Date(`${config.until}T23:59:59Z`) : new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate(), 23, 59, 59));
+  const start = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - config.months, end.getUTCDate()));
+
+  const transactions: Transaction[] = [];
+  const push = (date: Date, amount: number, currency: string, from: Transaction['from'], to: Transaction['to']) => {
+    transactions.push({
+      id: `mock-tx-${String(transactions.length + 1).padStart(6, '0')}`,
+      amount,
+      createdAt: date.toISOString(),
+      currency,
+      from,
+      to,
+    });
+  };
+
+  const employer = partners[0];
+  const landlord = partners[Math.min(1, partners.length - 1)];
+
+  for (let day = new Date(start); day <= end; day = new Date(day.getTime() + 24 * 60 * 60 * 1000)) {
+    const at = (hour: number) => new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hour, random.int(0, 59)));
+    const main = own[0];
+
+    // Recurring flows: salary on the 10th, rent on the 15th, a subscription on the 3rd
+    if (day.getUTCDate() === 10) {
+      push(at(8), 42000 + random.int(0, 4) * 500, main.currency, { number: employer.number, user: employer.user }, { number: main.number, user: owner });
+    }
+    if (day.getUTCDate() === 15) {
+      push(at(9), 15000, main.currency, { number: main.number, user: owner }, { number: landlord.number, user: landlord.user });
+    }
+    if (day.getUTCDate() === 3 && partners.length > 2) {
+      const service = partners[2];
+      push(at(6), 299, main.currency, { number: main.number, user: owner }, { number: service.number, user: service.user });
+    }
+
+    // Savings transfer between own accounts the day after payday
+    const savings = own.find((entry, index) => index > 0 && entry.currency === main.currency);
+    if (savings && day.getUTCDate() === 11) {
+      push(at(10), 5000, main.currency, { number: main.number, user: owner }, { number: savings.number, user: owner });
+    }
+
+    const count = random.int(0, 3);
+    for (let i = 0; i < count; i++) {
+      const partner = random.pick(partners);
+      const account = own.find(entry => entry.currency === partner.currency) ?? main;
+      const amount = Math.max(1, Math.round(partner.typicalAmount * (0.5 + random.next())));
+      const incoming = random.next() < 0.35;
+      const partnerSide = { number: partner.number, user: partner.user };
+      const ownSide = { number: account.number, user: owner };
+      push(at(random.int(7, 22)), amount, account.currency, incoming ? partnerSide : ownSide, incoming ? ownSide : partnerSide);
+    }
+  }
+
+  transactions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const accounts: BankAccount[] = own.map((account, index) => {
+    const net = transactions.reduce((sum, tx) => {
+      if (tx.to.number === account.number) return sum + tx.amount;
+      if (tx.from.number === account.number) return sum - tx.amount;
+      return sum;
+    }, 0);
+    return {
+      id: `mock-account-${index + 1}`,
+      number: account.number,
+      // Opening balance keeps the generated history from going deep into the red
+      balance: 50000 + net,
+      currency: account.currency,
+      user: owner,
+    };
+  });
+
+  return { user, accounts, transactions };
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+export async function handleMockRequest(endpoint: MockEndpoint, apiKey: string | null, searchParams: URLSearchParams): Promise<MockResponse> {
+  if (!apiKey) {
+    return { status: 401, body: { success: false, error: 'Missing x-api-key header' } };
+  }
+
+  const config = parseMockConfig(apiKey, searchParams);
+  if (config.delay > 0) await new Promise(resolve => setTimeout(resolve, config.delay));
+
+  if (config.error && (!config.errorEndpoint || config.errorEndpoint === endpoint)) {
+    return { status: config.error, body: { success: false, error: `Injected mock error ${config.error}` } };
+  }
+
+  const dataset = generateMockDataset(config);
+
+  switch (endpoint) {
+    case 'user':
+      return { status: 200, body: { success: true, data: dataset.user } };
+    case 'bank-account':
+      return { status: 200, body: { success: true, data: { bankAccounts: dataset.accounts } } };
+    case 'transactions': {
+      const page = clampInt(searchParams.get('page') ?? '1', 1, Number.MAX_SAFE_INTEGER) ?? 1;
+      const limit = clampInt(searchParams.get('limit') ?? '100', 1, 1000) ?? 100;
+      if (config.failPage === page) {
+        return { status: 500, body: { success: false, error: `Injected failure on page ${page}` } };
+      }
+      const transactions = dataset.transactions.slice((page - 1) * limit, page * limit);
+      return { status: 200, body: { success: true, data: { transactions, total: dataset.transactions.length } } };
+    }
+  }
+}
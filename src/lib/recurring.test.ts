@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Transaction } from './czechibank';
+import { DEFAULT_MOCK_CONFIG, generateMockDataset } from './mock-czechibank';
+import { detectRecurring, upcomingOccurrences } from './recurring';
+
+const me = { number: 'OWN-1', user: { id: 'u1', name: 'Me' } };
+const context = { ownAccounts: new Set([me.number]), scope: new Set([me.number]) };
+
+let nextId = 0;
+// Positive amounts come in, negative ones go out; dates are local noon
+function tx(date: string, amount: number, partner = 'P-1'): Transaction {
+  const other = { number: partner, user: { id: partner, name: partner } };
+  return {
+    id: String(++nextId),
+    amount: Math.abs(amount),
+    createdAt: `${date}T12:00:00`,
+    currency: 'CZK',
+    from: amount > 0 ? other : me,
+    to: amount > 0 ? me : other,
+  };
+}
+
+const monthly = (day: number, amounts: number[], partner?: string, year = 2025) =>
+  amounts.map((amount, index) => tx(`${year}-${String(index + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`, amount, partner));
+
+describe('detectRecurring', () => {
+  it('finds a subscription among one-off payments of a similar amount', () => {
+    const subscription = monthly(3, Array(12).fill(-299));
+    const oneOffs = [tx('2025-01-20', -250), tx('2025-03-06', -320), tx('2025-05-12', -370), tx('2025-08-29', -232), tx('2025-11-05', -310)];
+    const series = detectRecurring([...subscription, ...oneOffs], context, new Date(2026, 0, 2, 12));
+    expect(series).toHaveLength(1);
+    expect(series[0]).toMatchObject({ cadence: 'monthly', direction: 'outgoing', count: 12, averageAmount: 299, active: true, alerts: [] });
+    expect(series[0].transactionIds).toEqual(subscription.map(entry => entry.id));
+  });
+
+  it('detects the subscription of the mock data', () => {
+    const { transactions, accounts } = generateMockDataset(DEFAULT_MOCK_CONFIG, new Date(2025, 11, 31, 12));
+    const own = new Set(accounts.map(account => account.number));
+    const series = detectRecurring(transactions, { ownAccounts: own, scope: own }, new Date(2025, 11, 31, 12));
+    expect(series.find(entry => entry.averageAmount === 299)).toMatchObject({ cadence: 'monthly', direction: 'outgoing' });
+  });
+
+  it('detects a salary whose amount varies a little', () => {
+    const series = detectRecurring(monthly(10, [42000, 42500, 44000, 42000, 43500, 42000], 'EMPLOYER'), context, new Date(2025, 5, 20, 12));
+    expect(series).toHaveLength(1);
+    expect(series[0]).toMatchObject({ cadence: 'monthly', direction: 'incoming', count: 6, nextExpected: '2025-07-10', active: true });
+  });
+
+  it('flags a rent increase and a missed rent payment', () => {
+    const rent = monthly(15, [-15000, -15000, -15000, -15000, -16000], 'LANDLORD');
+    const [changed] = detectRecurring(rent, context, new Date(2025, 5, 1, 12));
+    expect(changed.alerts).toEqual([{ type: 'amountChanged', previousAverage: 15000, amount: 16000 }]);
+
+    const [late] = detectRecurring(rent, context, new Date(2025, 5, 25, 12));
+    expect(late.alerts).toContainEqual({ type: 'missing', expected: '2025-06-15', daysLate: 10 });
+  });
+
+  it('reports a series that stopped long ago as ended', () => {
+    const [ended] = detectRecurring(monthly(15, [-15000, -15000, -15000], 'LANDLORD'), context, new Date(2025, 11, 1, 12));
+    expect(ended).toMatchObject({ active: false, alerts: [] });
+    expect(upcomingOccurrences(ended, '2025-12-01', '2026-01-31')).toEqual([]);
+  });
+
+  it('ignores irregular payments', () => {
+    const payments = [tx('2025-01-02', -300), tx('2025-01-19', -300), tx('2025-03-30', -300), tx('2025-04-04', -300)];
+    expect(detectRecurring(payments, context, new Date(2025, 4, 1, 12))).toEqual([]);
+  });
+});
+
+describe('upcomingOccurrences', () => {
+  it('keeps a late payment expected today and continues the cadence', () => {
+    const [rent] = detectRecurring(monthly(15, [-15000, -15000, -15000], 'LANDLORD'), context, new Date(2025, 3, 20, 12));
+    expect(upcomingOccurrences(rent, '2025-04-20', '2025-06-30')).toEqual(['2025-04-20', '2025-05-15', '2025-06-15']);
+  });
+});
@@ -0,0 +1,230 @@
+import { getCounterparty, getSignedAmount, getTransactionDirection, type AccountContext } from './accounts';
+import { toDayKey } from './analytics';
+import type { Transaction } from './czechibank';
+import { parseDay } from './date-range';
+import { DAY, groupBy, median } from './stats';
+
+// Detects recurring payments: at least MIN_OCCURRENCES transactions with the same
+// counterparty account, direction and currency, amounts within AMOUNT_TOLERANCE of each
+// other, and mostly regular gaps between them. One-off payments of a similar amount to
+// the same counterparty are split off by following the cadence (see findSteadyChain).
+// A series that missed more than ENDED_AFTER_PERIODS payments is reported as ended
+// instead of raising alerts.
+
+export type Cadence = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export type RecurringAlert =
+  | { type: 'missing'; expected: string; daysLate: number }
+  | { type: 'amountChanged'; previousAverage: number; amount: number };
+
+export interface RecurringSeries {
+  id: string;
+  counterparty: { number: string; name: string };
+  direction: 'incoming' | 'outgoing';
+  cadence: Cadence;
+  currency: string;
+  count: number;
+  averageAmount: number;
+  lastAmount: number;
+  firstDate: string;
+  lastDate: string;
+  // `YYYY-MM-DD`
+  nextExpected: string;
+  active: boolean;
+  transactionIds: string[];
+  alerts: RecurringAlert[];
+}
+
+const MIN_OCCURRENCES = 3;
+const AMOUNT_TOLERANCE = 0.25;
+// Share of gaps that have to match the cadence; one skipped or doubled payment is fine.
+const MIN_REGULARITY = 0.75;
+const AMOUNT_CHANGE_THRESHOLD = 0.05;
+const ENDED_AFTER_PERIODS = 2;
+
+const CADENCES: { cadence: Cadence; days: number; tolerance: number; grace: number }[] = [
+  { cadence: 'weekly', days: 7, tolerance: 2, grace: 3 },
+  { cadence: 'biweekly', days: 14, tolerance: 3, grace: 4 },
+  { cadence: 'monthly', days: 30.4, tolerance: 4, grace: 5 },
+  { cadence: 'quarterly', days: 91.3, tolerance: 10, grace: 10 },
+  { cadence: 'yearly', days: 365.25, tolerance: 15, grace: 15 },
+];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Whole calendar days between two `YYYY-MM-DD` keys.
+const daysBetween = (from: string, to: string) => Math.round((parseDay(to)!.getTime() - parseDay(from)!.getTime()) / DAY);
+
+function addCadence(day: string, cadence: Cadence): string {
+  const date = parseDay(day)!;
+  switch (cadence) {
+    case 'weekly':
+      return toDayKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() + 7));
+    case 'biweekly':
+      return toDayKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() + 14));
+    default: {
+      // Calendar months keep "on the 10th" on the 10th, clamped to short months
+      const months = cadence === 'monthly' ? 1 : cadence === 'quarterly' ? 3 : 12;
+      const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+      const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+      return toDayKey(new Date(target.getFullYear(), target.getMonth(), Math.min(date.getDate(), lastDay)));
+    }
+  }
+}
+
+// Splits a counterparty's payments into groups of similar amounts, so rent and an
+// occasional one-off payment to the same landlord don't blur into one series.
+function clusterByAmount(transactions: Transaction[]): Transaction[][] {
+  const clusters: { average: number; items: Transaction[] }[] = [];
+  [...transactions]
+    .sort((a, b) => Math.abs(a.amount) - Math.abs(b.amount))
+    .forEach(tx => {
+      const amount = Math.abs(tx.amount);
+      const cluster = clusters.find(entry => Math.abs(amount - entry.average) <= Math.max(1, entry.average * AMOUNT_TOLERANCE));
+      if (cluster) {
+        cluster.items.push(tx);
+        cluster.average = cluster.items.reduce((sum, item) => sum + Math.abs(item.amount), 0) / cluster.items.length;
+      } else {
+        clusters.push({ average: amount, items: [tx] });
+      }
+    });
+  return clusters.map(cluster => cluster.items);
+}
+
+const toDays = (transactions: Transaction[]) => transactions.map(tx => toDayKey(tx.createdAt));
+
+// The longest run of payments (sorted by date) that follows one cadence, allowing a single
+// skipped period between two of them; every skip counts against the run, so monthly rent is
+// not read as a biweekly series with gaps. Each step takes the candidate closest in amount
+// to the previous payment, so a fixed subscription wins over one-offs that happen to fall
+// on a similar day.
+function findSteadyChain(sorted: Transaction[]): Transaction[] {
+  const days = toDays(sorted);
+  let best: number[] = [];
+  let bestScore = 0;
+
+  CADENCES.forEach(({ days: period, tolerance }) => {
+    const following = (current: number, steps: number) => {
+      const candidates: number[] = [];
+      for (let index = current + 1; index < sorted.length; index++) {
+        const gap = daysBetween(days[current], days[index]);
+        if (gap > period * steps + tolerance) break;
+        if (Math.abs(gap - period * steps) <= tolerance) candidates.push(index);
+      }
+      return candidates;
+    };
+    const next = (current: number) => {
+      const steps = following(current, 1).length > 0 ? 1 : 2;
+      const previous = Math.abs(sorted[current].amount);
+      const distance = (index: number) => Math.abs(Math.abs(sorted[index].amount) - previous);
+      const index = following(current, steps).reduce<number | undefined>((closest, candidate) =>
+        (closest === undefined || distance(candidate) < distance(closest) ? candidate : closest), undefined);
+      return index === undefined ? undefined : { index, skipped: steps - 1 };
+    };
+
+    sorted.forEach((_, start) => {
+      const chain = [start];
+      let skipped = 0;
+      for (let step = next(start); step; step = next(step.index)) {
+        chain.push(step.index);
+        skipped += step.skipped;
+      }
+      if (chain.length - skipped > bestScore) {
+        best = chain;
+        bestScore = chain.length - skipped;
+      }
+    });
+  });
+
+  return best.map(index => sorted[index]);
+}
+
+// Series within one amount cluster: steady chains taken out one by one until none is long
+// enough. Whatever is left over are one-off payments.
+function splitSeries(cluster: Transaction[]): Transaction[][] {
+  const series: Transaction[][] = [];
+  let remaining = [...cluster].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  while (remaining.length >= MIN_OCCURRENCES) {
+    const chain = findSteadyChain(remaining);
+    if (chain.length < MIN_OCCURRENCES || !detectCadence(toDays(chain))) break;
+    series.push(chain);
+    remaining = remaining.filter(tx => !chain.includes(tx));
+  }
+  return series;
+}
+
+function detectCadence(days: string[]) {
+  const gaps = days.slice(1).map((day, index) => daysBetween(days[index], day)).filter(gap => gap > 0);
+  if (gaps.length < MIN_OCCURRENCES - 1) return undefined;
+  const typical = median(gaps);
+  const match = CADENCES.find(entry => Math.abs(typical - entry.days) <= entry.tolerance);
+  if (!match) return undefined;
+  const regular = gaps.filter(gap => Math.abs(gap - match.days) <= match.tolerance).length;
+  return regular / gaps.length >= MIN_REGULARITY ? match : undefined;
+}
+
+export function detectRecurring(transactions: Transaction[], { ownAccounts, scope }: AccountContext, now = new Date()): RecurringSeries[] {
+  const external = transactions.filter(tx =>
+    getSignedAmount(tx, scope) !== 0 && getTransactionDirection(tx, ownAccounts, scope) !== 'internal');
+  const groups = groupBy(external, tx =>
+    [getCounterparty(tx, scope).number, getSignedAmount(tx, scope) > 0 ? 'incoming' : 'outgoing', tx.currency].join('|'));
+
+  const today = toDayKey(now);
+  const series: RecurringSeries[] = [];
+
+  groups.forEach((group, key) => {
+    clusterByAmount(group).flatMap(splitSeries).forEach(sorted => {
+      const days = toDays(sorted);
+      const match = detectCadence(days);
+      if (!match) return;
+
+      const amounts = sorted.map(tx => Math.abs(tx.amount));
+      const lastAmount = amounts[amounts.length - 1];
+      const previousAverage = amounts.slice(0, -1).reduce((sum, amount) => sum + amount, 0) / (amounts.length - 1);
+      const lastDate = days[days.length - 1];
+      const nextExpected = addCadence(lastDate, match.cadence);
+      const latest = sorted[sorted.length - 1];
+      const counterparty = getCounterparty(latest, scope);
+
+      const daysLate = daysBetween(nextExpected, today);
+      const active = daysLate <= match.days * ENDED_AFTER_PERIODS;
+      const alerts: RecurringAlert[] = [];
+      if (active && daysLate > match.grace) {
+        alerts.push({ type: 'missing', expected: nextExpected, daysLate });
+      }
+      if (active && Math.abs(lastAmount - previousAverage) > previousAverage * AMOUNT_CHANGE_THRESHOLD) {
+        alerts.push({ type: 'amountChanged', previousAverage: round(previousAverage), amount: lastAmount });
+      }
+
+      series.push({
+        id: `${key}|${sorted[0].id}`,
+        counterparty: { number: counterparty.number, name: counterparty.user.name },
+        direction: getSignedAmount(latest, scope) > 0 ? 'incoming' : 'outgoing',
+        cadence: match.cadence,
+        currency: latest.currency,
+        count: sorted.length,
+        averageAmount: round(amounts.reduce((sum, amount) => sum + amount, 0) / amounts.length),
+        lastAmount,
+        firstDate: days[0],
+        lastDate,
+        nextExpected,
+        active,
+        transactionIds: sorted.map(tx => tx.id),
+        alerts,
+      });
+    });
+  });
+
+  return series.sort((a, b) => Number(b.active) - Number(a.active) || a.nextExpected.localeCompare(b.nextExpected));
+}
+
+// Days (`YYYY-MM-DD`) on which an active series is expected to pay up to and including
+// `until`. Payments that are already late are assumed to still come, on `from`.
+export function upcomingOccurrences(series: RecurringSeries, from: string, until: string): string[] {
+  if (!series.active) return [];
+  const days: string[] = [];
+  for (let day = series.nextExpected; day <= until; day = addCadence(day, series.cadence)) {
+    days.push(day < from ? from : day);
+  }
+  return days;
+}
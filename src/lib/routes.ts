@@ -0,0 +1,17 @@
+// Links to the pages that drill into the dashboard's data.
+
+export const DASHBOARD_HREF = '/';
+export const PARTNERS_HREF = '/partners';
+
+// The dashboard with its view state (see url-state), so coming back keeps the view.
+export function dashboardHref(viewQuery: string): string {
+  return viewQuery ? `${DASHBOARD_HREF}?${viewQuery}` : DASHBOARD_HREF;
+}
+
+export function partnerHref(partnerId: string): string {
+  return `${PARTNERS_HREF}/${encodeURIComponent(partnerId)}`;
+}
+
+export function transactionHref(transactionId: string): string {
+  return `/transactions/${encodeURIComponent(transactionId)}`;
+}
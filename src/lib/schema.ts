@@ -0,0 +1,77 @@
+// Minimal runtime validators for untrusted JSON (API responses, imported files).
+// Each schema returns the validated value or throws a SchemaError pointing at the
+// exact path that did not match, e.g. `data.transactions[3].from.user.id`.
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export class SchemaError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly expected: string,
+    public readonly received: unknown,
+  ) {
+    super(`${path || 'value'}: expected ${expected}, received ${describeValue(received)}`);
+    this.name = 'SchemaError';
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  if (typeof value === 'number' || typeof value === 'boolean') return `${typeof value} ${value}`;
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+export const string = (): Schema<string> => (value, path) => {
+  if (typeof value !== 'string') throw new SchemaError(path, 'string', value);
+  return value;
+};
+
+export const number = (): Schema<number> => (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new SchemaError(path, 'finite number', value);
+  return value;
+};
+
+export const boolean = (): Schema<boolean> => (value, path) => {
+  if (typeof value !== 'boolean') throw new SchemaError(path, 'boolean', value);
+  return value;
+};
+
+export const dateString = (): Schema<string> => (value, path) => {
+  if (typeof value !== 'string' || Number.isNaN(new Date(value).getTime())) {
+    throw new SchemaError(path, 'ISO date string', value);
+  }
+  return value;
+};
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => (value, path) =>
+  value === undefined || value === null ? undefined : schema(value, path);
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => (value, path) => {
+  if (!Array.isArray(value)) throw new SchemaError(path, 'array', value);
+  return value.map((entry, index) => item(entry, joinPath(path, index)));
+};
+
+// Unknown keys are dropped so the backend can add fields without breaking us.
+export const object = <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SchemaError(path, 'object', value);
+  }
+  const record = value as Record<string, unknown>;
+  const result = {} as T;
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    const parsed = shape[key](record[key], joinPath(path, key));
+    if (parsed !== undefined) result[key] = parsed;
+  }
+  return result;
+};
+
+export function parse<T>(schema: Schema<T>, value: unknown, path = ''): T {
+  return schema(value, path);
+}
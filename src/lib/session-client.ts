@@ -0,0 +1,33 @@
+import axios from 'axios';
+
+import { CzechiBankApiError } from './czechibank';
+import type { SessionStatus } from './session';
+
+// Browser side of /api/session. API keys are posted once, when a profile is saved, and
+// never stored by the client; afterwards requests go through PROXY_BASE_URL.
+
+const SESSION_ENDPOINT = '/api/session';
+
+async function request(method: 'get' | 'post' | 'patch' | 'delete', body?: unknown, params?: Record<string, string>): Promise<SessionStatus> {
+  try {
+    const res = await axios.request<SessionStatus>({ method, url: SESSION_ENDPOINT, data: body, params });
+    return res.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      const message = (error.response?.data as { error?: string } | undefined)?.error ?? error.message;
+      throw new CzechiBankApiError(message, SESSION_ENDPOINT, error.response?.status, error.code);
+    }
+    throw error;
+  }
+}
+
+export const getSessionStatus = () => request('get');
+
+// Logs in, or adds a profile to the current session, and activates it.
+export const saveProfile = (baseUrl: string, apiKey: string, label: string) => request('post', { baseUrl, apiKey, label });
+
+export const switchProfile = (profileId: string) => request('patch', { activeProfileId: profileId });
+
+export const removeProfile = (profileId: string) => request('delete', undefined, { profile: profileId });
+
+export const endSession = () => request('delete');
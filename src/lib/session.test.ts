@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  addProfile,
+  MAX_API_KEY_LENGTH,
+  MAX_LABEL_LENGTH,
+  MAX_PROFILES,
+  sealSession,
+  SESSION_COOKIE,
+  SessionRequestError,
+  type Session,
+} from './session';
+
+const BASE_URL = 'http://localhost:4000/api/v1';
+
+describe('addProfile', () => {
+  it('refuses labels and keys over the length limits', () => {
+    expect(() => addProfile(null, { baseUrl: BASE_URL, apiKey: 'key', label: 'x'.repeat(5000) })).toThrow(SessionRequestError);
+    expect(() => addProfile(null, { baseUrl: BASE_URL, apiKey: 'k'.repeat(MAX_API_KEY_LENGTH + 1) })).toThrow(SessionRequestError);
+  });
+
+  it('refuses a profile that would no longer fit into the cookie', () => {
+    const apiKey = 'k'.repeat(MAX_API_KEY_LENGTH);
+    let session: Session | null = null;
+    let added = 0;
+    try {
+      for (; added < MAX_PROFILES; added++) {
+        session = addProfile(session, { baseUrl: BASE_URL, apiKey, label: `${added}`.padEnd(MAX_LABEL_LENGTH, 'x') });
+        expect(SESSION_COOKIE.length + 1 + sealSession(session).length).toBeLessThanOrEqual(4096);
+      }
+    } catch (error) {
+      expect(error).toBeInstanceOf(SessionRequestError);
+    }
+    expect(added).toBeLessThan(MAX_PROFILES);
+  });
+});
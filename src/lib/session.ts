@@ -0,0 +1,200 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomUUID } from 'crypto';
+
+import { isBuiltInBaseUrl, normalizeBaseUrl } from './environments';
+import { array, number, object, optional, parse, string } from './schema';
+
+// Server-side session behind the /api/session and /api/proxy route handlers. Saved
+// connection profiles (base URL + API key + label) live in an AES-256-GCM encrypted,
+// httpOnly cookie, so the browser holds the keys but no client script can read them.
+// Only import this from route handlers.
+
+export const SESSION_COOKIE = 'czechibank_session';
+// Seconds until the user has to enter a key again.
+export const SESSION_MAX_AGE = 8 * 60 * 60;
+// Keeps the cookie well under the 4 KB browsers accept.
+export const MAX_PROFILES = 8;
+export const MAX_LABEL_LENGTH = 80;
+export const MAX_BASE_URL_LENGTH = 200;
+export const MAX_API_KEY_LENGTH = 256;
+// Browsers silently drop a cookie whose name and value exceed 4096 bytes.
+const MAX_COOKIE_LENGTH = 4096;
+
+export interface SessionProfile {
+  id: string;
+  label: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+export type ProfileSummary = Omit<SessionProfile, 'apiKey'>;
+
+export interface Session {
+  profiles: SessionProfile[];
+  // The profile the proxy forwards requests for.
+  activeProfileId: string;
+  // Milliseconds since the epoch; checked on every request, not only by the cookie expiry.
+  expiresAt: number;
+}
+
+// What the browser may know about its session: everything except the keys.
+export interface SessionStatus {
+  authenticated: boolean;
+  profiles?: ProfileSummary[];
+  activeProfileId?: string;
+  expiresAt?: number;
+}
+
+export class SessionConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionConfigError';
+  }
+}
+
+// A login or profile change the server refuses; answered with a 400.
+export class SessionRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionRequestError';
+  }
+}
+
+const profileSchema = object<SessionProfile>({
+  id: string(),
+  label: string(),
+  baseUrl: string(),
+  apiKey: string(),
+});
+
+const sessionSchema = object<Session>({
+  profiles: array(profileSchema),
+  activeProfileId: string(),
+  expiresAt: number(),
+});
+
+const newProfileSchema = object<{ baseUrl: string; apiKey: string; label?: string }>({
+  baseUrl: string(),
+  apiKey: string(),
+  label: optional(string()),
+});
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Development falls back to a per-process secret (sessions end on restart); production
+// refuses to run without SESSION_SECRET. It lives on globalThis because every route
+// handler gets its own copy of this module.
+const devSecretHolder = globalThis as typeof globalThis & { czechibankDevSessionSecret?: string };
+
+function getKey(): Buffer {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && process.env.NODE_ENV === 'production') {
+    throw new SessionConfigError('SESSION_SECRET is not set');
+  }
+  devSecretHolder.czechibankDevSessionSecret ??= randomBytes(32).toString('hex');
+  return createHash('sha256').update(secret || devSecretHolder.czechibankDevSessionSecret).digest();
+}
+
+export function sealSession(session: Session): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(session), 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+}
+
+// null for a missing, tampered, undecryptable or expired cookie.
+export function openSession(value: string | undefined, now = Date.now()): Session | null {
+  if (!value) return null;
+  try {
+    const data = Buffer.from(value, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', getKey(), data.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    const json = Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf8');
+    const session = parse(sessionSchema, JSON.parse(json));
+    return session.expiresAt > now ? session : null;
+  } catch (error) {
+    if (error instanceof SessionConfigError) throw error;
+    return null;
+  }
+}
+
+// Custom base URLs make the proxy fetch whatever URL a caller names, so outside
+// development they need an explicit opt-in.
+const customBaseUrlsAllowed = () =>
+  process.env.NODE_ENV !== 'production' || process.env.ALLOW_CUSTOM_API_URLS === 'true';
+
+function checkBaseUrl(baseUrl: string): string {
+  if (isBuiltInBaseUrl(baseUrl)) return baseUrl;
+  const normalized = normalizeBaseUrl(baseUrl);
+  if (!normalized) throw new SessionRequestError(`Not an http(s) URL: ${baseUrl}`);
+  if (!customBaseUrlsAllowed()) throw new SessionRequestError('Custom API URLs are disabled on this server');
+  return normalized;
+}
+
+export function getActiveProfile(session: Session): SessionProfile | undefined {
+  return session.profiles.find(profile => profile.id === session.activeProfileId);
+}
+
+export function toSessionStatus(session: Session | null): SessionStatus {
+  if (!session) return { authenticated: false };
+  return {
+    authenticated: true,
+    profiles: session.profiles.map(({ id, label, baseUrl }) => ({ id, label, baseUrl })),
+    activeProfileId: session.activeProfileId,
+    expiresAt: session.expiresAt,
+  };
+}
+
+// Logs in, or adds a profile to an existing session, and makes it the active one. Entering
+// a key again for the same environment and label replaces the old profile.
+export function addProfile(session: Session | null, body: unknown, now = Date.now()): Session {
+  const input = parse(newProfileSchema, body);
+  if (input.baseUrl.length > MAX_BASE_URL_LENGTH) {
+    throw new SessionRequestError(`The base URL can have at most ${MAX_BASE_URL_LENGTH} characters`);
+  }
+  const baseUrl = checkBaseUrl(input.baseUrl);
+  const apiKey = input.apiKey.trim();
+  if (!apiKey) throw new SessionRequestError('API key is empty');
+  if (apiKey.length > MAX_API_KEY_LENGTH) throw new SessionRequestError(`The API key can have at most ${MAX_API_KEY_LENGTH} characters`);
+  const label = input.label?.trim() || baseUrl;
+  if (label.length > MAX_LABEL_LENGTH) throw new SessionRequestError(`The profile name can have at most ${MAX_LABEL_LENGTH} characters`);
+
+  const others = (session?.profiles ?? []).filter(profile => profile.baseUrl !== baseUrl || profile.label !== label);
+  if (others.length >= MAX_PROFILES) throw new SessionRequestError(`At most ${MAX_PROFILES} profiles can be saved`);
+
+  const profile = { id: randomUUID(), label, baseUrl, apiKey };
+  const next = { profiles: [...others, profile], activeProfileId: profile.id, expiresAt: now + SESSION_MAX_AGE * 1000 };
+  // Several long profiles together can still outgrow the cookie
+  if (SESSION_COOKIE.length + 1 + sealSession(next).length > MAX_COOKIE_LENGTH) {
+    throw new SessionRequestError('The saved profiles no longer fit into the session cookie; remove a profile or use a shorter name');
+  }
+  return next;
+}
+
+export function activateProfile(session: Session, profileId: string): Session {
+  if (!session.profiles.some(profile => profile.id === profileId)) throw new SessionRequestError('Unknown profile');
+  return { ...session, activeProfileId: profileId };
+}
+
+// null once the last profile is gone, which ends the session.
+export function removeProfile(session: Session, profileId: string): Session | null {
+  const profiles = session.profiles.filter(profile => profile.id !== profileId);
+  if (profiles.length === 0) return null;
+  const activeProfileId = profiles.some(profile => profile.id === session.activeProfileId) ? session.activeProfileId : profiles[0].id;
+  return { ...session, profiles, activeProfileId };
+}
+
+export function sessionCookieOptions(expiresAt: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+    path: '/api',
+    expires: new Date(expiresAt),
+  };
+}
+
+// The mock API has a relative base URL; the proxy reaches it through this app's own origin.
+export function resolveBaseUrl(baseUrl: string, origin: string): string {
+  return new URL(baseUrl, origin).toString().replace(/\/$/, '');
+}
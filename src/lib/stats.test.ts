@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+
+import { groupBy, median } from './stats';
+
+describe('median', () => {
+  it('takes the middle value, or the mean of the two middle ones', () => {
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+  });
+
+  it('does not reorder its input', () => {
+    const values = [3, 1, 2];
+    median(values);
+    expect(values).toEqual([3, 1, 2]);
+  });
+});
+
+describe('groupBy', () => {
+  it('keeps the original order within each group', () => {
+    const groups = groupBy(['apple', 'avocado', 'banana', 'apricot'], fruit => fruit[0]);
+    expect([...groups.entries()]).toEqual([['a', ['apple', 'avocado', 'apricot']], ['b', ['banana']]]);
+  });
+});
@@ -0,0 +1,25 @@
+// Small helpers shared by the detectors (anomalies, recurring payments) and the forecast.
+
+// Milliseconds in a day.
+export const DAY = 86_400_000;
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Items by key, in their original order within each group.
+export function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const value = key(item);
+    const group = groups.get(value);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(value, [item]);
+    }
+  });
+  return groups;
+}
@@ -0,0 +1,45 @@
+import type { CSSProperties } from 'react';
+
+export type ThemeMode = 'light' | 'dark' | 'system';
+// `colorBlind` swaps the semantic colors for the Okabe–Ito set, which stays distinct
+// for red-green and blue-yellow color blindness
+export type ColorPalette = 'default' | 'colorBlind';
+
+export const THEME_MODES: ThemeMode[] = ['light', 'dark', 'system'];
+export const DEFAULT_THEME_MODE: ThemeMode = 'system';
+export const DEFAULT_COLOR_PALETTE: ColorPalette = 'default';
+
+export const THEME_COOKIE = 'czechibank_theme';
+export const PALETTE_COOKIE = 'czechibank_palette';
+
+export const resolveThemeMode = (saved: string | undefined): ThemeMode =>
+  THEME_MODES.includes(saved as ThemeMode) ? saved as ThemeMode : DEFAULT_THEME_MODE;
+
+export const resolveColorPalette = (saved: string | undefined): ColorPalette =>
+  saved === 'colorBlind' ? 'colorBlind' : DEFAULT_COLOR_PALETTE;
+
+// Runs before the first paint when the mode follows the system, which the server cannot know
+export const SYSTEM_THEME_SCRIPT = "if (matchMedia('(prefers-color-scheme: dark)').matches) document.documentElement.classList.add('dark');";
+
+// The values are CSS variables from globals.css, switched by the `dark` class and the
+// `data-palette` attribute on <html>, so charts follow the theme without re-rendering.
+export const CHART_COLORS = {
+  incoming: 'var(--incoming)',
+  outgoing: 'var(--outgoing)',
+  balance: 'var(--balance)',
+  neutral: 'var(--neutral)',
+  anomaly: 'var(--anomaly)',
+  grid: 'var(--chart-grid)',
+  axis: 'var(--chart-axis)',
+  text: 'var(--chart-text)',
+  surface: 'var(--card)',
+} as const;
+
+export const CHART_TICK = { fontSize: 12, fill: CHART_COLORS.text };
+
+export const CHART_TOOLTIP_STYLE: CSSProperties = {
+  backgroundColor: 'var(--chart-tooltip)',
+  border: `1px solid ${CHART_COLORS.grid}`,
+  borderRadius: '0.5rem',
+  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
+};
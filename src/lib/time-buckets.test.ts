@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+
+import { bucketStart, enumerateBuckets, getIsoWeek, nextBucketKey, toBucketKey } from './time-buckets';
+
+// Local noon, so the day is the same in every time zone the tests may run in
+const local = (year: number, month: number, day: number) => new Date(year, month - 1, day, 12);
+
+describe('toBucketKey', () => {
+  it('keeps the same month of different years apart', () => {
+    expect(toBucketKey(local(2025, 1, 15), 'month')).toBe('2025-01');
+    expect(toBucketKey(local(2026, 1, 15), 'month')).toBe('2026-01');
+  });
+
+  it('puts late December into week 1 of the next ISO year', () => {
+    expect(toBucketKey(local(2024, 12, 30), 'week')).toBe('2025-W01');
+    expect(getIsoWeek(local(2024, 12, 30))).toEqual({ year: 2025, week: 1 });
+  });
+
+  it('puts early January into week 53 of the previous ISO year', () => {
+    expect(toBucketKey(local(2021, 1, 3), 'week')).toBe('2020-W53');
+    expect(toBucketKey(local(2020, 12, 31), 'week')).toBe('2020-W53');
+  });
+
+  it('builds quarter and year keys', () => {
+    expect(toBucketKey(local(2025, 11, 2), 'quarter')).toBe('2025-Q4');
+    expect(toBucketKey(local(2025, 11, 2), 'year')).toBe('2025');
+  });
+});
+
+describe('bucketStart', () => {
+  it('starts ISO weeks on Monday', () => {
+    expect(bucketStart('2020-W53', 'week')).toEqual(new Date(2020, 11, 28));
+    expect(bucketStart('2025-W01', 'week')).toEqual(new Date(2024, 11, 30));
+  });
+});
+
+describe('nextBucketKey', () => {
+  it('rolls week 53 over into week 1 of the next year', () => {
+    expect(nextBucketKey('2020-W53', 'week')).toBe('2021-W01');
+  });
+
+  it('skips week 53 in years that do not have one', () => {
+    expect(nextBucketKey('2024-W52', 'week')).toBe('2025-W01');
+  });
+
+  it('rolls months, quarters and days over the year end', () => {
+    expect(nextBucketKey('2025-12', 'month')).toBe('2026-01');
+    expect(nextBucketKey('2025-Q4', 'quarter')).toBe('2026-Q1');
+    expect(nextBucketKey('2025-12-31', 'day')).toBe('2026-01-01');
+  });
+});
+
+describe('enumerateBuckets', () => {
+  it('lists every bucket between the first and the last, both included', () => {
+    expect(enumerateBuckets('2025-11', '2026-02', 'month')).toEqual(['2025-11', '2025-12', '2026-01', '2026-02']);
+    expect(enumerateBuckets('2020-W52', '2021-W02', 'week')).toEqual(['2020-W52', '2020-W53', '2021-W01', '2021-W02']);
+  });
+
+  it('stops after 5000 buckets', () => {
+    const keys = enumerateBuckets('2000-01-01', '2030-12-31', 'day');
+    expect(keys).toHaveLength(5000);
+    expect(keys[keys.length - 1]).not.toBe('2030-12-31');
+  });
+});
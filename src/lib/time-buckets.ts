@@ -0,0 +1,96 @@
+// Calendar buckets for time-series charts. Keys are sortable, locale-independent strings
+// in local time; string order equals chronological order within one granularity:
+//
+//   day      2025-01-31
+//   week     2025-W05   (ISO 8601 week, Monday first, week-numbering year)
+//   month    2025-01
+//   quarter  2025-Q1
+//   year     2025
+
+export type Granularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export const GRANULARITIES: Granularity[] = ['day', 'week', 'month', 'quarter', 'year'];
+
+// Refuse to fill more empty buckets than this (e.g. daily buckets over decades).
+const MAX_FILLED_BUCKETS = 5000;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+export function getIsoWeek(value: Date): { year: number; week: number } {
+  // The Thursday of the same week decides which year the week belongs to
+  const date = new Date(Date.UTC(value.getFullYear(), value.getMonth(), value.getDate()));
+  const weekday = date.getUTCDay() || 7;
+  date.setUTCDate(date.getUTCDate() + 4 - weekday);
+  const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((date.getTime() - yearStart) / 86_400_000 + 1) / 7);
+  return { year: date.getUTCFullYear(), week };
+}
+
+export function toBucketKey(value: string | Date, granularity: Granularity): string {
+  const date = new Date(value);
+  const year = date.getFullYear();
+  switch (granularity) {
+    case 'day':
+      return `${year}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    case 'week': {
+      const isoWeek = getIsoWeek(date);
+      return `${isoWeek.year}-W${pad(isoWeek.week)}`;
+    }
+    case 'month':
+      return `${year}-${pad(date.getMonth() + 1)}`;
+    case 'quarter':
+      return `${year}-Q${Math.floor(date.getMonth() / 3) + 1}`;
+    case 'year':
+      return String(year);
+  }
+}
+
+// First day of the bucket, local midnight.
+export function bucketStart(key: string, granularity: Granularity): Date {
+  const year = Number(key.slice(0, 4));
+  switch (granularity) {
+    case 'day': {
+      const [, month, day] = key.split('-').map(Number);
+      return new Date(year, month - 1, day);
+    }
+    case 'week': {
+      const week = Number(key.slice(6));
+      // January 4th is always in ISO week 1
+      const jan4 = new Date(year, 0, 4);
+      const weekday = jan4.getDay() || 7;
+      return new Date(year, 0, 4 - (weekday - 1) + (week - 1) * 7);
+    }
+    case 'month':
+      return new Date(year, Number(key.slice(5, 7)) - 1, 1);
+    case 'quarter':
+      return new Date(year, (Number(key.slice(6)) - 1) * 3, 1);
+    case 'year':
+      return new Date(year, 0, 1);
+  }
+}
+
+export function nextBucketKey(key: string, granularity: Granularity): string {
+  const start = bucketStart(key, granularity);
+  switch (granularity) {
+    case 'day':
+      return toBucketKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1), granularity);
+    case 'week':
+      return toBucketKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7), granularity);
+    case 'month':
+      return toBucketKey(new Date(start.getFullYear(), start.getMonth() + 1, 1), granularity);
+    case 'quarter':
+      return toBucketKey(new Date(start.getFullYear(), start.getMonth() + 3, 1), granularity);
+    case 'year':
+      return toBucketKey(new Date(start.getFullYear() + 1, 0, 1), granularity);
+  }
+}
+
+// Every bucket from `first` to `last` inclusive, so empty periods are not skipped.
+// Stops early after MAX_FILLED_BUCKETS; callers can tell by checking the last key.
+export function enumerateBuckets(first: string, last: string, granularity: Granularity): string[] {
+  const keys: string[] = [];
+  for (let key = first; key <= last && keys.length < MAX_FILLED_BUCKETS; key = nextBucketKey(key, granularity)) {
+    keys.push(key);
+  }
+  return keys;
+}
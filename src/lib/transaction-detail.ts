@@ -0,0 +1,57 @@
+import { computeClosingBalance } from './analytics';
+import { getCounterparty, getPartnerId, getTransactionDirection } from './accounts';
+import type { BankAccount, Transaction } from './czechibank';
+import { roundAmount } from './currency';
+import { DAY } from './stats';
+
+// What the transaction detail view shows besides the record itself.
+
+export interface BalanceImpact {
+  account: BankAccount;
+  before: number;
+  after: number;
+}
+
+const RELATED_WINDOW_DAYS = 30;
+const RELATED_LIMIT = 10;
+
+// Oldest first; equal timestamps keep a stable order so "after" is well defined.
+const chronological = (a: Transaction, b: Transaction) =>
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id.localeCompare(b.id);
+
+// Balance of each own account the transaction touches, right before and right after it,
+// rewound from the account's current balance like the running-balance chart.
+export function computeBalanceImpact(tx: Transaction, transactions: Transaction[], accounts: BankAccount[]): BalanceImpact[] {
+  return accounts
+    .filter(account => account.number === tx.from.number || account.number === tx.to.number)
+    .map(account => {
+      const scope = new Set([account.number]);
+      const context = { ownAccounts: scope, scope };
+      const later = transactions.filter(other =>
+        (other.from.number === account.number || other.to.number === account.number) && chronological(other, tx) > 0);
+      const after = roundAmount(computeClosingBalance(account.balance, later, context));
+      const before = roundAmount(computeClosingBalance(after, [tx], context));
+      return { account, before, after };
+    });
+}
+
+// Other transactions with the same partner within RELATED_WINDOW_DAYS of this one,
+// closest first. Internal transfers relate to the other transfers between the same
+// two accounts.
+export function findRelatedTransactions(tx: Transaction, transactions: Transaction[], ownAccounts: Set<string>): Transaction[] {
+  const time = new Date(tx.createdAt).getTime();
+  const internal = getTransactionDirection(tx, ownAccounts, ownAccounts) === 'internal';
+  const partnerKey = (other: Transaction) => internal
+    ? [other.from.number, other.to.number].sort().join('|')
+    : getPartnerId(getCounterparty(other, ownAccounts));
+  const key = partnerKey(tx);
+
+  return transactions
+    .filter(other => other.id !== tx.id
+      && Math.abs(new Date(other.createdAt).getTime() - time) <= RELATED_WINDOW_DAYS * DAY
+      && (getTransactionDirection(other, ownAccounts, ownAccounts) === 'internal') === internal
+      && partnerKey(other) === key)
+    .sort((a, b) => Math.abs(new Date(a.createdAt).getTime() - time) - Math.abs(new Date(b.createdAt).getTime() - time))
+    .slice(0, RELATED_LIMIT)
+    .sort(chronological);
+}
@@ -0,0 +1,75 @@
+import { getTransactionDirection, type AccountContext, type TransactionDirection } from './accounts';
+import type { Transaction } from './czechibank';
+
+export type SortField = 'date' | 'amount' | 'from' | 'to';
+export type SortOrder = 'asc' | 'desc';
+
+export interface TransactionFilters {
+  search: string;
+  minAmount?: number;
+  maxAmount?: number;
+  direction: TransactionDirection | 'all';
+  currency: string | 'all';
+  category: string | 'all';
+}
+
+export const DEFAULT_TRANSACTION_FILTERS: TransactionFilters = {
+  search: '',
+  direction: 'all',
+  currency: 'all',
+  category: 'all',
+};
+
+// Free-text search looks at both parties' names and account numbers.
+function matchesSearch(tx: Transaction, search: string): boolean {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return true;
+  return [tx.from.user.name, tx.from.number, tx.to.user.name, tx.to.number]
+    .some(value => value.toLowerCase().includes(needle));
+}
+
+// `categories` maps transaction ids to categories (see lib/categories.ts).
+export function filterTransactions(
+  transactions: Transaction[],
+  filters: TransactionFilters,
+  { ownAccounts, scope }: AccountContext,
+  categories?: Map<string, string>,
+): Transaction[] {
+  return transactions.filter(tx => {
+    const amount = Math.abs(tx.amount);
+    if (filters.minAmount !== undefined && amount < filters.minAmount) return false;
+    if (filters.maxAmount !== undefined && amount > filters.maxAmount) return false;
+    if (filters.currency !== 'all' && tx.currency !== filters.currency) return false;
+    if (filters.direction !== 'all' && getTransactionDirection(tx, ownAccounts, scope) !== filters.direction) return false;
+    if (filters.category !== 'all' && categories?.get(tx.id) !== filters.category) return false;
+    return matchesSearch(tx, filters.search);
+  });
+}
+
+export function sortTransactions(transactions: Transaction[], sortField: SortField, sortOrder: SortOrder): Transaction[] {
+  const multiplier = sortOrder === 'asc' ? 1 : -1;
+
+  return [...transactions].sort((a, b) => {
+    switch (sortField) {
+      case 'date':
+        return (new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()) * multiplier;
+      case 'amount':
+        return (a.amount - b.amount) * multiplier;
+      case 'from':
+        return a.from.user.name.localeCompare(b.from.user.name) * multiplier;
+      case 'to':
+        return a.to.user.name.localeCompare(b.to.user.name) * multiplier;
+      default:
+        return 0;
+    }
+  });
+}
+
+export function hasActiveFilters(filters: TransactionFilters): boolean {
+  return filters.search.trim() !== ''
+    || filters.minAmount !== undefined
+    || filters.maxAmount !== undefined
+    || filters.direction !== 'all'
+    || filters.currency !== 'all'
+    || filters.category !== 'all';
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+
+import { decodeViewState, DEFAULT_VIEW_STATE, encodeViewState, type DashboardViewState } from './url-state';
+
+const view: DashboardViewState = {
+  dateRange: { preset: 'custom', from: '2025-01-01', to: '2025-03-31' },
+  comparison: { mode: 'custom', from: '2024-01-01', to: '2024-03-31' },
+  selectedAccount: '1000007919/5555',
+  sortField: 'amount',
+  sortOrder: 'asc',
+  filters: { search: 'nájem & co', minAmount: 0, maxAmount: 1500.5, direction: 'outgoing', currency: 'EUR', category: 'Housing' },
+  currencyView: { mode: 'converted', currency: 'CZK' },
+  zoom: { start: '2025-01', end: '2025-02' },
+  environment: 'http://localhost:4000/api/v1',
+};
+
+describe('view state in the URL', () => {
+  it('decodes an encoded view to the same view', () => {
+    expect(decodeViewState(encodeViewState(view))).toEqual(view);
+  });
+
+  it('leaves the default view out of the URL', () => {
+    expect(encodeViewState(DEFAULT_VIEW_STATE)).toBe('');
+    expect(decodeViewState('')).toEqual(DEFAULT_VIEW_STATE);
+  });
+
+  it('ignores malformed values', () => {
+    const decoded = decodeViewState('range=custom&from=yesterday&sort=nonsense&min=-5&view=sideways:CZK');
+    expect(decoded).toMatchObject({ dateRange: { preset: 'custom', from: undefined }, sortField: 'date', currencyView: null });
+    expect(decoded.filters.minAmount).toBeUndefined();
+  });
+});
@@ -0,0 +1,112 @@
+import { ALL_ACCOUNTS } from './accounts';
+import { COMPARISON_MODES, DEFAULT_COMPARISON, type ComparisonSettings } from './comparison';
+import type { CurrencyView } from './currency';
+import { DATE_RANGE_PRESETS, DEFAULT_DATE_RANGE, type DateRange } from './date-range';
+import { DEFAULT_TRANSACTION_FILTERS, type SortField, type SortOrder, type TransactionFilters } from './transaction-filters';
+
+// The dashboard's view state as query parameters, so a link reopens the same view.
+// Only values that differ from the defaults are written, unknown or malformed ones are
+// ignored on the way back, and nothing secret (API keys, session) ever goes in.
+
+export interface DashboardViewState {
+  dateRange: DateRange;
+  comparison: ComparisonSettings;
+  selectedAccount: string;
+  sortField: SortField;
+  sortOrder: SortOrder;
+  filters: TransactionFilters;
+  // null follows the selected account's currency.
+  currencyView: CurrencyView | null;
+  // First and last period shown by the running-balance Brush; null is its default window.
+  zoom: { start: string; end: string } | null;
+  // Base URL of the API environment the view was made in.
+  environment: string | null;
+}
+
+export const DEFAULT_VIEW_STATE: DashboardViewState = {
+  dateRange: DEFAULT_DATE_RANGE,
+  comparison: DEFAULT_COMPARISON,
+  selectedAccount: ALL_ACCOUNTS,
+  sortField: 'date',
+  sortOrder: 'desc',
+  filters: DEFAULT_TRANSACTION_FILTERS,
+  currencyView: null,
+  zoom: null,
+  environment: null,
+};
+
+const SORT_FIELDS: SortField[] = ['date', 'amount', 'from', 'to'];
+const DIRECTIONS: TransactionFilters['direction'][] = ['all', 'incoming', 'outgoing', 'internal'];
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const oneOf = <T extends string>(value: string | null, options: readonly T[]): T | undefined =>
+  options.find(option => option === value);
+
+const day = (value: string | null) => (value && DAY_PATTERN.test(value) ? value : undefined);
+
+const amount = (value: string | null) => {
+  const number = value === null || value === '' ? NaN : Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+export function encodeViewState(state: DashboardViewState): string {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | undefined, skip?: string | number) => {
+    if (value !== undefined && value !== '' && value !== skip) params.set(key, String(value));
+  };
+
+  set('range', state.dateRange.preset, DEFAULT_DATE_RANGE.preset);
+  if (state.dateRange.preset === 'custom') {
+    set('from', state.dateRange.from);
+    set('to', state.dateRange.to);
+  }
+  set('compare', state.comparison.mode, DEFAULT_COMPARISON.mode);
+  if (state.comparison.mode === 'custom') {
+    set('compareFrom', state.comparison.from);
+    set('compareTo', state.comparison.to);
+  }
+  set('account', state.selectedAccount, ALL_ACCOUNTS);
+  set('sort', state.sortField, DEFAULT_VIEW_STATE.sortField);
+  set('order', state.sortOrder, DEFAULT_VIEW_STATE.sortOrder);
+  set('q', state.filters.search.trim());
+  set('min', state.filters.minAmount);
+  set('max', state.filters.maxAmount);
+  set('direction', state.filters.direction, 'all');
+  set('currency', state.filters.currency, 'all');
+  set('category', state.filters.category, 'all');
+  if (state.currencyView) set('view', `${state.currencyView.mode}:${state.currencyView.currency}`);
+  if (state.zoom) set('zoom', `${state.zoom.start}~${state.zoom.end}`);
+  set('env', state.environment ?? undefined);
+  return params.toString();
+}
+
+export function decodeViewState(search: string): DashboardViewState {
+  const params = new URLSearchParams(search);
+  const get = (key: string) => params.get(key);
+
+  const preset = oneOf(get('range'), DATE_RANGE_PRESETS) ?? DEFAULT_DATE_RANGE.preset;
+  const mode = oneOf(get('compare'), COMPARISON_MODES) ?? DEFAULT_COMPARISON.mode;
+  const [viewMode, ...viewCurrency] = (get('view') ?? '').split(':');
+  const [zoomStart, zoomEnd] = (get('zoom') ?? '').split('~');
+
+  return {
+    dateRange: preset === 'custom' ? { preset, from: day(get('from')), to: day(get('to')) } : { preset },
+    comparison: mode === 'custom' ? { mode, from: day(get('compareFrom')), to: day(get('compareTo')) } : { mode },
+    selectedAccount: get('account') || ALL_ACCOUNTS,
+    sortField: oneOf(get('sort'), SORT_FIELDS) ?? DEFAULT_VIEW_STATE.sortField,
+    sortOrder: oneOf(get('order'), ['asc', 'desc'] as const) ?? DEFAULT_VIEW_STATE.sortOrder,
+    filters: {
+      search: get('q') ?? '',
+      minAmount: amount(get('min')),
+      maxAmount: amount(get('max')),
+      direction: oneOf(get('direction'), DIRECTIONS) ?? 'all',
+      currency: get('currency') || 'all',
+      category: get('category') || 'all',
+    },
+    currencyView: (viewMode === 'native' || viewMode === 'converted') && viewCurrency.join(':')
+      ? { mode: viewMode, currency: viewCurrency.join(':') }
+      : null,
+    zoom: zoomStart && zoomEnd ? { start: zoomStart, end: zoomEnd } : null,
+    environment: get('env') || null,
+  };
+}